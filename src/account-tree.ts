@@ -0,0 +1,108 @@
+/**
+ * Chart of accounts tree utilities for ERPNext MCP Server
+ */
+
+import { AccountBalance, AccountTreeNode } from './types.js';
+
+/**
+ * Build the nested chart of accounts from a flat Account list (ordered by lft so
+ * siblings keep the ERPNext order). With balances, each account's own GL totals
+ * are rolled up into every group above it.
+ */
+export function buildAccountTree(
+  accounts: Record<string, any>[],
+  balances?: Map<string, { debit: number; credit: number }>
+): AccountTreeNode[] {
+  const nodes = new Map<string, AccountTreeNode>();
+  for (const account of accounts) {
+    nodes.set(account.name, {
+      name: account.name,
+      account_name: account.account_name,
+      account_number: account.account_number || undefined,
+      account_type: account.account_type || undefined,
+      root_type: account.root_type || undefined,
+      account_currency: account.account_currency || undefined,
+      is_group: !!account.is_group,
+      children: []
+    });
+  }
+
+  const roots: AccountTreeNode[] = [];
+  for (const account of accounts) {
+    const node = nodes.get(account.name)!;
+    const parent = account.parent_account ? nodes.get(account.parent_account) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  if (balances) {
+    const rollUp = (node: AccountTreeNode): AccountBalance => {
+      const own = balances.get(node.name);
+      let debit = own?.debit || 0;
+      let credit = own?.credit || 0;
+      for (const child of node.children) {
+        const childBalance = rollUp(child);
+        debit += childBalance.debit;
+        credit += childBalance.credit;
+      }
+      node.balance = {
+        debit: round(debit),
+        credit: round(credit),
+        balance: round(debit - credit)
+      };
+      return node.balance;
+    };
+    roots.forEach(rollUp);
+  }
+
+  return roots;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Drop accounts whose rolled-up balance and activity are zero (groups stay while any descendant remains)
+ */
+export function pruneZeroBalances(nodes: AccountTreeNode[]): AccountTreeNode[] {
+  return nodes
+    .map(node => ({ ...node, children: pruneZeroBalances(node.children) }))
+    .filter(node => node.children.length > 0 || (node.balance && (node.balance.debit !== 0 || node.balance.credit !== 0)));
+}
+
+/**
+ * Count accounts in a tree
+ */
+export function countAccounts(nodes: AccountTreeNode[]): number {
+  return nodes.reduce((count, node) => count + 1 + countAccounts(node.children), 0);
+}
+
+/**
+ * Indented text rendering of the tree, balances right-aligned after the account label.
+ * Debit balances are positive, credit balances negative.
+ */
+export function renderAccountTree(nodes: AccountTreeNode[]): string {
+  const lines: { label: string; balance?: string }[] = [];
+
+  const walk = (node: AccountTreeNode, depth: number) => {
+    lines.push({
+      label: `${'  '.repeat(depth)}${node.is_group ? '+ ' : '  '}${node.name}`,
+      balance: node.balance ? node.balance.balance.toFixed(2) : undefined
+    });
+    node.children.forEach(child => walk(child, depth + 1));
+  };
+  nodes.forEach(node => walk(node, 0));
+
+  const labelWidth = Math.max(0, ...lines.map(line => line.label.length));
+  const balanceWidth = Math.max(0, ...lines.map(line => line.balance?.length || 0));
+
+  return lines
+    .map(line => line.balance === undefined
+      ? line.label
+      : `${line.label.padEnd(labelWidth)}  ${line.balance.padStart(balanceWidth)}`)
+    .join('\n');
+}
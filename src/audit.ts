@@ -0,0 +1,163 @@
+/**
+ * Audit log for ERPNext MCP Server
+ *
+ * Every write tool call is appended to a JSONL file: one record per call with the
+ * (redacted) arguments and the documents it changed. Documents are collected by
+ * the client while the call runs, through an AsyncLocalStorage context.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { AuditDocument, AuditQuery, AuditRecord } from './types.js';
+
+// Argument names whose values never reach the log
+const SECRET_KEY_PATTERN = /password|secret|token|api_key|authorization/i;
+
+// Longer strings (e.g. statement file contents) are cut down
+const MAX_STRING_LENGTH = 2000;
+
+const auditContext = new AsyncLocalStorage<AuditDocument[]>();
+
+/**
+ * Audit log file: ERPNEXT_AUDIT_LOG, ~/.erpnext-mcp/audit.jsonl by default, or
+ * undefined when set to "off"
+ */
+export function auditLogPath(): string | undefined {
+  const configured = process.env.ERPNEXT_AUDIT_LOG;
+  if (configured && configured.trim().toLowerCase() === 'off') {
+    return undefined;
+  }
+  return configured || join(homedir(), '.erpnext-mcp', 'audit.jsonl');
+}
+
+/**
+ * Copy of tool arguments with secret values replaced and long strings truncated
+ */
+export function redactArguments(value: unknown, key: string = ''): any {
+  if (key && SECRET_KEY_PATTERN.test(key) && value !== undefined && value !== null) {
+    return '[REDACTED]';
+  }
+  if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}... [${value.length - MAX_STRING_LENGTH} more characters]`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactArguments(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([childKey, child]) => [childKey, redactArguments(child, childKey)]));
+  }
+  return value;
+}
+
+/**
+ * Run `fn`, collecting every document the client changes while it runs
+ */
+export async function collectAuditDocuments<T>(fn: () => Promise<T>): Promise<{ documents: AuditDocument[]; result?: T; error?: unknown }> {
+  const documents: AuditDocument[] = [];
+  try {
+    const result = await auditContext.run(documents, fn);
+    return { documents, result };
+  } catch (error) {
+    return { documents, error };
+  }
+}
+
+/**
+ * Whether a call is being audited (so updates should snapshot the document first)
+ */
+export function isAuditing(): boolean {
+  return auditContext.getStore() !== undefined;
+}
+
+/**
+ * Note a changed document in the current call's audit record, if any
+ */
+export function recordAuditDocument(document: AuditDocument): void {
+  auditContext.getStore()?.push(document);
+}
+
+// A bare date bound covers the whole day
+function dateBound(value: string, end: boolean): number {
+  const text = /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T${end ? '23:59:59.999' : '00:00:00.000'}Z` : value;
+  const time = Date.parse(text);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * Append-only JSONL audit file. Share one instance per file so appends are serialized.
+ */
+export class AuditLog {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(public readonly filePath: string) {}
+
+  append(record: AuditRecord): Promise<void> {
+    const write = this.writing.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, `${JSON.stringify(record)}\n`, { encoding: 'utf8', mode: 0o600 });
+    });
+    this.writing = write;
+    return write;
+  }
+
+  /**
+   * Matching records, newest first
+   */
+  async query(query: AuditQuery): Promise<{ records: AuditRecord[]; total: number }> {
+    const from = query.from_date ? dateBound(query.from_date, false) : undefined;
+    const to = query.to_date ? dateBound(query.to_date, true) : undefined;
+
+    let text = '';
+    try {
+      await this.writing.catch(() => undefined);
+      text = await readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw new Error(`Failed to read audit log ${this.filePath}: ${error?.message || 'Unknown error'}`);
+      }
+    }
+
+    const matches: AuditRecord[] = [];
+    for (const line of text.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        // Skip a line left incomplete by a crash
+        continue;
+      }
+
+      const time = Date.parse(record.timestamp);
+      if ((from !== undefined && time < from) || (to !== undefined && time > to)) {
+        continue;
+      }
+      if (query.tool && record.tool !== query.tool) {
+        continue;
+      }
+      if (query.site && record.site !== query.site) {
+        continue;
+      }
+      if (query.doctype && !record.documents.some(document => document.doctype === query.doctype)) {
+        continue;
+      }
+      if (query.document && !record.documents.some(document => document.name === query.document)) {
+        continue;
+      }
+      matches.push(record);
+    }
+
+    matches.reverse();
+    return {
+      records: query.limit ? matches.slice(0, query.limit) : matches,
+      total: matches.length
+    };
+  }
+}
@@ -3,16 +3,50 @@
  */
 
 import {
+  BankImportColumn,
+  BankImportMapping,
   BankTransaction,
+  DateOrder,
+  DuplicateCheckResult,
+  DuplicateCheckRow,
   JournalEntry
 } from './types.js';
+import {
+  daysBetween,
+  stringSimilarity
+} from './reconciliation-utils.js';
 
 /**
- * Parse date from various formats to YYYY-MM-DD
+ * Parse date from various formats to YYYY-MM-DD.
+ * Pass dateOrder for ambiguous numeric dates such as 03/04/25 (e.g. 'DMY' for European statements).
  */
-export function parseDate(dateStr: string): string {
+export function parseDate(dateStr: string, dateOrder?: DateOrder): string {
+  const trimmed = dateStr.trim();
+
+  // ISO dates (optionally with a time part) are taken as-is to avoid timezone shifts
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  if (iso) {
+    return formatDateParts(Number(iso[1]), Number(iso[2]), Number(iso[3]), dateStr);
+  }
+
+  if (dateOrder) {
+    const parts = trimmed.split(/[\/.\-' ]+/);
+    if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) {
+      throw new Error(`Invalid date format: ${dateStr}`);
+    }
+
+    const values = parts.map(Number);
+    const [year, month, day] = dateOrder === 'YMD'
+      ? [values[0], values[1], values[2]]
+      : dateOrder === 'MDY'
+        ? [values[2], values[0], values[1]]
+        : [values[2], values[1], values[0]];
+
+    return formatDateParts(expandYear(year), month, day, dateStr);
+  }
+
   // Handle common date formats: M/D/YY, MM/DD/YYYY, YYYY-MM-DD
-  const date = new Date(dateStr);
+  const date = new Date(trimmed);
   if (isNaN(date.getTime())) {
     throw new Error(`Invalid date format: ${dateStr}`);
   }
@@ -24,6 +58,28 @@ export function parseDate(dateStr: string): string {
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Expand two-digit years (00-69 => 2000s, 70-99 => 1900s)
+ */
+function expandYear(year: number): number {
+  if (year >= 100) {
+    return year;
+  }
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+/**
+ * Validate a calendar date and format it as YYYY-MM-DD
+ */
+function formatDateParts(year: number, month: number, day: number, original: string): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`Invalid date format: ${original}`);
+  }
+
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
 /**
  * Parse amount from string, handling negative values and currency symbols
  */
@@ -110,3 +166,147 @@ export function createJournalEntryForTransaction(
     user_remark: description
   };
 }
+
+/**
+ * Normalize a bank description for comparison: lowercase letters and digits, single spaces
+ */
+export function normalizeDescription(description: string | undefined): string {
+  return (description || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Fingerprint of a transaction used when no transaction_id is available
+ */
+export function transactionFingerprint(transaction: BankTransaction): string {
+  const signed = (transaction.deposit || 0) - (transaction.withdrawal || 0);
+  return `${transaction.date}|${signed.toFixed(2)}|${normalizeDescription(transaction.description)}`;
+}
+
+/**
+ * Classify incoming transactions against existing ones for the same bank account.
+ * Each existing transaction can match at most one incoming row, so repeated
+ * identical rows (two coffees on one day) are only flagged as often as they already exist.
+ */
+export function classifyDuplicates(
+  incoming: BankTransaction[],
+  existing: BankTransaction[],
+  likelyWindowDays: number = 2
+): DuplicateCheckResult {
+  const rows: DuplicateCheckRow[] = incoming.map((transaction, index) => ({
+    row_index: index,
+    status: 'new' as const,
+    transaction
+  }));
+  const used = new Set<number>();
+
+  const conflictingIds = (a: BankTransaction, b: BankTransaction) =>
+    !!a.transaction_id && !!b.transaction_id && a.transaction_id !== b.transaction_id;
+
+  const claim = (row: DuplicateCheckRow, predicate: (candidate: BankTransaction) => boolean): BankTransaction | undefined => {
+    const index = existing.findIndex((candidate, i) => !used.has(i) && predicate(candidate));
+    if (index === -1) {
+      return undefined;
+    }
+    used.add(index);
+    return existing[index];
+  };
+
+  // Pass 1: transaction_id
+  for (const row of rows) {
+    if (!row.transaction.transaction_id) {
+      continue;
+    }
+    const match = claim(row, candidate => candidate.transaction_id === row.transaction.transaction_id);
+    if (match) {
+      row.status = 'duplicate';
+      row.existing_transaction = match.name;
+      row.reason = `transaction_id ${row.transaction.transaction_id} already imported`;
+    }
+  }
+
+  // Pass 2: date + amount + normalized description
+  for (const row of rows) {
+    if (row.status !== 'new') {
+      continue;
+    }
+    const fingerprint = transactionFingerprint(row.transaction);
+    const match = claim(row, candidate =>
+      !conflictingIds(row.transaction, candidate) && transactionFingerprint(candidate) === fingerprint
+    );
+    if (match) {
+      row.status = 'duplicate';
+      row.existing_transaction = match.name;
+      row.reason = 'Same date, amount and description';
+    }
+  }
+
+  // Pass 3: same amount near the same date with a similar (or on the same day, any) description
+  for (const row of rows) {
+    if (row.status !== 'new') {
+      continue;
+    }
+    const signed = (row.transaction.deposit || 0) - (row.transaction.withdrawal || 0);
+    const description = normalizeDescription(row.transaction.description);
+    const match = claim(row, candidate => {
+      const candidateSigned = (candidate.deposit || 0) - (candidate.withdrawal || 0);
+      if (conflictingIds(row.transaction, candidate) || Math.abs(candidateSigned - signed) >= 0.005) {
+        return false;
+      }
+      const days = Math.abs(daysBetween(row.transaction.date, candidate.date));
+      if (days > likelyWindowDays) {
+        return false;
+      }
+      return days === 0 || stringSimilarity(description, normalizeDescription(candidate.description)) >= 0.6;
+    });
+    if (match) {
+      row.status = 'likely_duplicate';
+      row.existing_transaction = match.name;
+      row.reason = `Same amount on ${match.date}: "${match.description}"`;
+    }
+  }
+
+  return {
+    new_count: rows.filter(row => row.status === 'new').length,
+    duplicate_count: rows.filter(row => row.status === 'duplicate').length,
+    likely_duplicate_count: rows.filter(row => row.status === 'likely_duplicate').length,
+    rows
+  };
+}
+
+/**
+ * Guess which columns hold the date, amounts and description from CSV headers
+ */
+export function guessImportMapping(columns: string[]): BankImportMapping | undefined {
+  const find = (...patterns: RegExp[]): BankImportColumn | undefined => {
+    for (const pattern of patterns) {
+      const index = columns.findIndex(column => pattern.test(column.trim()));
+      if (index !== -1) {
+        return { field_name: columns[index], column_index: index };
+      }
+    }
+    return undefined;
+  };
+
+  const date = find(/^(transaction |posting |value )?date$/i, /date/i);
+  const description = find(/^description$/i, /description|details|narrative|memo|payee/i);
+  const deposit = find(/^deposits?$/i, /deposit|credit/i);
+  const withdrawal = find(/^withdrawals?$/i, /withdrawal|debit/i);
+  const amount = find(/^amount$/i);
+
+  if (!date || !description || (!amount && !deposit && !withdrawal)) {
+    return undefined;
+  }
+
+  return {
+    date,
+    description,
+    deposit,
+    withdrawal,
+    amount: deposit || withdrawal ? undefined : amount,
+    reference: find(/^reference( number| no\.?)?$/i, /cheque|check ?(no|num)/i),
+    transaction_id: find(/^transaction ?id$/i)
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Rule-based categorization of bank transactions for ERPNext MCP Server
+ *
+ * Rules are read from a local JSON or YAML file, either as a list or as
+ * { rules: [...] }. The first rule that matches a transaction wins.
+ */
+
+import { readFile } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import {
+  BankTransaction,
+  CategorizationResult,
+  CategorizationRule
+} from './types.js';
+import { createJournalEntryForTransaction } from './bank-utils.js';
+import { transactionAmount } from './reconciliation-utils.js';
+
+export interface CompiledRule {
+  rule: CategorizationRule;
+  description?: RegExp;
+  counterparty?: RegExp;
+}
+
+/**
+ * Bank account details needed to post a transaction: its GL account and company
+ */
+export interface BankAccountPosting {
+  account: string;
+  company: string;
+}
+
+function compilePattern(pattern: string | undefined, caseSensitive: boolean, label: string): RegExp | undefined {
+  if (pattern === undefined) {
+    return undefined;
+  }
+  try {
+    return new RegExp(pattern, caseSensitive ? '' : 'i');
+  } catch (error: any) {
+    throw new Error(`${label}: invalid regular expression: ${error?.message || pattern}`);
+  }
+}
+
+/**
+ * Validate raw rule definitions and compile their patterns
+ */
+export function compileRules(raw: unknown): CompiledRule[] {
+  const list = Array.isArray(raw) ? raw : (raw as any)?.rules;
+  if (!Array.isArray(list)) {
+    throw new Error('Rules file must contain a list of rules or an object with a "rules" list');
+  }
+
+  return list.map((rule: any, index: number) => {
+    const label = `Rule ${index}${rule?.name ? ` (${rule.name})` : ''}`;
+
+    if (!rule || typeof rule !== 'object') {
+      throw new Error(`${label}: must be an object`);
+    }
+    if (typeof rule.account !== 'string' || rule.account.trim() === '') {
+      throw new Error(`${label}: account is required`);
+    }
+    if (rule.direction !== undefined && rule.direction !== 'deposit' && rule.direction !== 'withdrawal') {
+      throw new Error(`${label}: direction must be 'deposit' or 'withdrawal'`);
+    }
+    for (const key of ['min_amount', 'max_amount']) {
+      if (rule[key] !== undefined && typeof rule[key] !== 'number') {
+        throw new Error(`${label}: ${key} must be a number`);
+      }
+    }
+    if (rule.description_pattern === undefined && rule.counterparty_pattern === undefined &&
+        rule.min_amount === undefined && rule.max_amount === undefined && rule.bank_account === undefined) {
+      throw new Error(`${label}: needs at least one condition`);
+    }
+
+    const caseSensitive = !!rule.case_sensitive;
+    return {
+      rule: { ...rule, name: rule.name || `Rule ${index}` },
+      description: compilePattern(rule.description_pattern, caseSensitive, label),
+      counterparty: compilePattern(rule.counterparty_pattern, caseSensitive, label)
+    };
+  });
+}
+
+/**
+ * Load and compile rules from a .json, .yaml or .yml file
+ */
+export async function loadRules(filePath: string): Promise<CompiledRule[]> {
+  const text = await readFile(filePath, 'utf8');
+  const raw = /\.json$/i.test(filePath) ? JSON.parse(text) : parseYaml(text);
+  return compileRules(raw);
+}
+
+/**
+ * Find the first rule matching a transaction
+ */
+export function findMatchingRule(transaction: BankTransaction, rules: CompiledRule[]): CategorizationRule | undefined {
+  const { amount, direction } = transactionAmount(transaction);
+
+  const match = rules.find(({ rule, description, counterparty }) => {
+    if (rule.bank_account && rule.bank_account !== transaction.bank_account) {
+      return false;
+    }
+    if (rule.direction && rule.direction !== direction) {
+      return false;
+    }
+    if (rule.min_amount !== undefined && amount < rule.min_amount) {
+      return false;
+    }
+    if (rule.max_amount !== undefined && amount > rule.max_amount) {
+      return false;
+    }
+    if (description && !description.test(transaction.description || '')) {
+      return false;
+    }
+    if (counterparty && !counterparty.test(transaction.bank_party_name || '')) {
+      return false;
+    }
+    return true;
+  });
+
+  return match?.rule;
+}
+
+function renderRemark(template: string, transaction: BankTransaction): string {
+  return template
+    .replace(/\{description\}/g, transaction.description || '')
+    .replace(/\{party\}/g, transaction.bank_party_name || '')
+    .replace(/\{reference\}/g, transaction.reference_number || '')
+    .replace(/\{date\}/g, transaction.date);
+}
+
+/**
+ * Apply rules to bank transactions and build draft journal entries for the matches
+ */
+export function categorizeTransactions(
+  transactions: BankTransaction[],
+  rules: CompiledRule[],
+  postings: Map<string, BankAccountPosting>
+): CategorizationResult {
+  const result: CategorizationResult = {
+    matched_count: 0,
+    unmatched_count: 0,
+    drafts: [],
+    unmatched: []
+  };
+
+  for (const transaction of transactions) {
+    const { amount, direction } = transactionAmount(transaction);
+    const rule = findMatchingRule(transaction, rules);
+    const posting = postings.get(transaction.bank_account);
+
+    if (!rule || !posting) {
+      result.unmatched_count++;
+      result.unmatched.push({
+        bank_transaction: transaction.name || '',
+        date: transaction.date,
+        amount,
+        direction,
+        description: transaction.description,
+        reason: rule ? `Bank Account ${transaction.bank_account} has no GL account` : 'No rule matched'
+      });
+      continue;
+    }
+
+    const remark = rule.remark ? renderRemark(rule.remark, transaction) : transaction.description;
+    const journalEntry = createJournalEntryForTransaction(
+      direction === 'deposit' ? 'income' : 'expense',
+      amount,
+      rule.account,
+      posting.account,
+      transaction.date,
+      posting.company,
+      remark
+    );
+
+    if (rule.cost_center) {
+      journalEntry.accounts
+        .filter(line => line.account === rule.account)
+        .forEach(line => {
+          line.cost_center = rule.cost_center;
+        });
+    }
+
+    if (transaction.reference_number) {
+      journalEntry.cheque_no = transaction.reference_number;
+      journalEntry.cheque_date = transaction.date;
+    }
+
+    result.matched_count++;
+    result.drafts.push({
+      bank_transaction: transaction.name || '',
+      rule: rule.name,
+      journal_entry: journalEntry
+    });
+  }
+
+  return result;
+}
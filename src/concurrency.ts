@@ -0,0 +1,91 @@
+/**
+ * Concurrency and rate limiting utilities for ERPNext MCP Server
+ */
+
+/**
+ * Token bucket: allows bursts of up to `capacity` requests, refilled at
+ * `ratePerSecond`. A rate of 0 disables limiting.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private ratePerSecond: number, private capacity: number = Math.max(1, ratePerSecond)) {
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wait until a token is available and take it. Waiters are served in call order.
+   */
+  take(): Promise<void> {
+    if (this.ratePerSecond <= 0) {
+      return Promise.resolve();
+    }
+
+    const turn = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = turn;
+    return turn;
+  }
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight. Results keep
+ * the input order. When `shouldStop` returns true, items not yet started are
+ * skipped and their result is undefined. `worker` should catch its own errors;
+ * one that throws rejects the whole call.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  shouldStop: () => boolean = () => false
+): Promise<(R | undefined)[]> {
+  const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workers = [];
+  for (let i = 0; i < Math.max(1, Math.min(limit, items.length)); i++) {
+    workers.push(run());
+  }
+  await Promise.all(workers);
+
+  return results;
+}
+
+/**
+ * Read a non-negative number from an environment variable
+ */
+export function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return value;
+}
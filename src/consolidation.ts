@@ -0,0 +1,212 @@
+/**
+ * Consolidated reporting utilities for ERPNext MCP Server
+ *
+ * Combines per-company account amounts into one report for a parent company and
+ * its subsidiaries: accounts are matched across companies by account number,
+ * name or root type, converted into the parent's currency, and intercompany
+ * amounts are eliminated.
+ */
+
+import {
+  AccountMapping,
+  ConsolidatedLine,
+  ConsolidatedReportKind,
+  ConsolidatedSection,
+  ConsolidationEntity,
+  EntityAccountAmount
+} from './types.js';
+
+const ROOT_TYPES = ['Asset', 'Liability', 'Equity', 'Income', 'Expense'];
+
+const REPORT_ROOT_TYPES: Record<ConsolidatedReportKind, string[]> = {
+  trial_balance: ROOT_TYPES,
+  balance_sheet: ['Asset', 'Liability', 'Equity'],
+  profit_and_loss: ['Income', 'Expense']
+};
+
+export const SIGN_CONVENTIONS: Record<ConsolidatedReportKind, string> = {
+  trial_balance: 'Balances are debit positive, credit negative',
+  balance_sheet: 'Assets are shown debit positive; liabilities and equity credit positive',
+  profit_and_loss: 'Income is shown credit positive; expenses debit positive'
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * A parent company followed by every company below it, from Company records with parent_company
+ */
+export function companyGroup<T extends { name: string; parent_company?: string }>(companies: T[], parent: string): T[] {
+  const root = companies.find(company => company.name === parent);
+  if (!root) {
+    throw new Error(`Company ${parent} not found`);
+  }
+
+  const group: T[] = [root];
+  for (let index = 0; index < group.length; index++) {
+    for (const company of companies) {
+      if (company.parent_company === group[index].name && !group.includes(company)) {
+        group.push(company);
+      }
+    }
+  }
+  return group;
+}
+
+// Statements show credit-natured root types as positive amounts
+function presentationSign(report: ConsolidatedReportKind, rootType: string): number {
+  if (report === 'trial_balance') {
+    return 1;
+  }
+  return rootType === 'Asset' || rootType === 'Expense' ? 1 : -1;
+}
+
+function mappingKey(amount: EntityAccountAmount, mapBy: AccountMapping): { key: string; label: string } {
+  if (mapBy === 'root_type') {
+    return { key: amount.root_type, label: amount.root_type };
+  }
+  if (mapBy === 'account_number' && amount.account_number) {
+    return { key: `number:${amount.account_number}`, label: `${amount.account_number} - ${amount.account_name}` };
+  }
+  // Accounts without a number are matched by name within their root type
+  return { key: `name:${amount.root_type}:${amount.account_name}`, label: amount.account_name };
+}
+
+function emptyLine(key: string, label: string, entities: ConsolidationEntity[], isTotal: boolean, rootType?: string): ConsolidatedLine {
+  return {
+    key,
+    label,
+    root_type: rootType,
+    is_total: isTotal,
+    entities: Object.fromEntries(entities.map(entity => [entity.company, 0])),
+    eliminations: 0,
+    consolidated: 0
+  };
+}
+
+function addLines(target: ConsolidatedLine, source: ConsolidatedLine, factor: number = 1): void {
+  for (const company of Object.keys(target.entities)) {
+    target.entities[company] += (source.entities[company] || 0) * factor;
+  }
+  target.eliminations += source.eliminations * factor;
+}
+
+function finishLine(line: ConsolidatedLine): ConsolidatedLine {
+  for (const company of Object.keys(line.entities)) {
+    line.entities[company] = round(line.entities[company]);
+  }
+  line.eliminations = round(line.eliminations);
+  line.consolidated = round(Object.values(line.entities).reduce((sum, value) => sum + value, 0) + line.eliminations);
+  return line;
+}
+
+/**
+ * Build the consolidated sections. `amounts` holds each company's account amounts
+ * (balance sheet and trial balance: closing balances; profit and loss: movements).
+ * For the balance sheet, `currentProfit` holds each company's income and expense
+ * amounts for the year so far, shown as provisional profit under equity.
+ */
+export function consolidate(
+  report: ConsolidatedReportKind,
+  entities: ConsolidationEntity[],
+  amounts: Map<string, EntityAccountAmount[]>,
+  mapBy: AccountMapping,
+  currentProfit?: Map<string, EntityAccountAmount[]>
+): ConsolidatedSection[] {
+  const rootTypes = REPORT_ROOT_TYPES[report];
+  const linesByRootType = new Map<string, Map<string, ConsolidatedLine>>(rootTypes.map(rootType => [rootType, new Map()]));
+
+  for (const entity of entities) {
+    for (const amount of amounts.get(entity.company) || []) {
+      const lines = linesByRootType.get(amount.root_type);
+      if (!lines || (amount.amount === 0 && amount.intercompany === 0)) {
+        continue;
+      }
+
+      const { key, label } = mappingKey(amount, mapBy);
+      let line = lines.get(key);
+      if (!line) {
+        line = emptyLine(key, label, entities, false, amount.root_type);
+        lines.set(key, line);
+      }
+
+      const factor = entity.exchange_rate * presentationSign(report, amount.root_type);
+      line.entities[entity.company] += amount.amount * factor;
+      line.eliminations -= amount.intercompany * factor;
+    }
+  }
+
+  if (report === 'balance_sheet' && currentProfit) {
+    // Profit not yet closed to retained earnings, so the balance sheet balances
+    const line = emptyLine('provisional_profit', 'Provisional Profit / Loss', entities, false, 'Equity');
+    for (const entity of entities) {
+      for (const amount of currentProfit.get(entity.company) || []) {
+        line.entities[entity.company] -= amount.amount * entity.exchange_rate;
+        line.eliminations += amount.intercompany * entity.exchange_rate;
+      }
+    }
+    linesByRootType.get('Equity')!.set(line.key, line);
+  }
+
+  const sections: ConsolidatedSection[] = [];
+  const sectionTotals = new Map<string, ConsolidatedLine>();
+  for (const rootType of rootTypes) {
+    const lines = [...linesByRootType.get(rootType)!.values()]
+      .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+    const total = emptyLine(`total:${rootType}`, `Total ${rootType}`, entities, true, rootType);
+    lines.forEach(line => addLines(total, line));
+
+    lines.forEach(finishLine);
+    sectionTotals.set(rootType, finishLine(total));
+    sections.push({ title: rootType, lines: [...lines, total] });
+  }
+
+  const summary: ConsolidatedLine[] = [];
+  if (report === 'profit_and_loss') {
+    const net = emptyLine('net_profit', 'Net Profit / Loss', entities, true);
+    addLines(net, sectionTotals.get('Income')!);
+    addLines(net, sectionTotals.get('Expense')!, -1);
+    summary.push(finishLine(net));
+  } else if (report === 'balance_sheet') {
+    const total = emptyLine('total_liabilities_equity', 'Total Liabilities and Equity', entities, true);
+    addLines(total, sectionTotals.get('Liability')!);
+    addLines(total, sectionTotals.get('Equity')!);
+    summary.push(finishLine(total));
+  } else {
+    const total = emptyLine('total', 'Total (should be zero)', entities, true);
+    rootTypes.forEach(rootType => addLines(total, sectionTotals.get(rootType)!));
+    summary.push(finishLine(total));
+  }
+  sections.push({ title: 'Summary', lines: summary });
+
+  return sections;
+}
+
+/**
+ * Text table with one column per company, then eliminations and the consolidated amount
+ */
+export function renderConsolidation(entities: ConsolidationEntity[], sections: ConsolidatedSection[]): string {
+  const headers = ['', ...entities.map(entity => entity.company), 'Eliminations', 'Consolidated'];
+
+  const rows: string[][] = [];
+  for (const section of sections) {
+    rows.push([section.title]);
+    for (const line of section.lines) {
+      rows.push([
+        `  ${line.label}`,
+        ...entities.map(entity => (line.entities[entity.company] || 0).toFixed(2)),
+        line.eliminations.toFixed(2),
+        line.consolidated.toFixed(2)
+      ]);
+    }
+    rows.push([]);
+  }
+
+  const widths = headers.map((header, index) => Math.max(header.length, ...rows.map(row => row.length > 1 ? (row[index] || '').length : 0)));
+  const format = (cells: string[]) => cells.length === 1
+    ? cells[0]
+    : cells.map((cell, index) => index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index])).join('  ').trimEnd();
+
+  return [format(headers), ...rows.map(row => row.length === 0 ? '' : format(row))].join('\n').trimEnd();
+}
@@ -0,0 +1,264 @@
+/**
+ * DocType metadata utilities for ERPNext MCP Server
+ */
+
+import {
+  DocTypeField,
+  DocTypeMeta,
+  FieldChange
+} from './types.js';
+
+/**
+ * Field types that only affect form layout and never hold data
+ */
+export const LAYOUT_FIELDTYPES = new Set([
+  'Section Break',
+  'Column Break',
+  'Tab Break',
+  'HTML',
+  'Button',
+  'Heading',
+  'Fold',
+  'Image'
+]);
+
+/**
+ * Field types that hold child table rows
+ */
+export const TABLE_FIELDTYPES = new Set(['Table', 'Table MultiSelect']);
+
+/**
+ * Convert a raw DocField row into a normalized field description
+ */
+export function normalizeDocField(docfield: Record<string, any>): DocTypeField {
+  const field: DocTypeField = {
+    fieldname: docfield.fieldname,
+    label: docfield.label || undefined,
+    fieldtype: docfield.fieldtype,
+    options: docfield.options || undefined,
+    reqd: !!docfield.reqd,
+    read_only: !!docfield.read_only,
+    hidden: !!docfield.hidden,
+    unique: !!docfield.unique,
+    permlevel: Number(docfield.permlevel) || 0,
+    default: docfield.default ?? undefined,
+    description: docfield.description || undefined,
+    in_list_view: !!docfield.in_list_view
+  };
+
+  if (docfield.fieldtype === 'Link' && docfield.options) {
+    field.link_doctype = docfield.options;
+  }
+
+  if (TABLE_FIELDTYPES.has(docfield.fieldtype) && docfield.options) {
+    field.child_doctype = docfield.options;
+  }
+
+  if (docfield.fieldtype === 'Select' && typeof docfield.options === 'string') {
+    field.select_options = docfield.options
+      .split('\n')
+      .map((option: string) => option.trim())
+      .filter((option: string) => option !== '');
+  }
+
+  return field;
+}
+
+/**
+ * Build a structured schema from the DocType documents returned by
+ * frappe.desk.form.load.getdoctype (the parent DocType plus its child tables)
+ */
+export function buildDocTypeMeta(doctype: string, docs: Record<string, any>[]): DocTypeMeta {
+  const byName = new Map<string, Record<string, any>>();
+  for (const doc of docs) {
+    if (doc && doc.name) {
+      byName.set(doc.name, doc);
+    }
+  }
+
+  const build = (name: string, seen: Set<string>): DocTypeMeta => {
+    const doc = byName.get(name);
+    if (!doc) {
+      throw new Error(`DocType ${name} not found in metadata response`);
+    }
+
+    seen.add(name);
+
+    const fields = (doc.fields || [])
+      .filter((docfield: any) => docfield.fieldname && !LAYOUT_FIELDTYPES.has(docfield.fieldtype))
+      .map(normalizeDocField);
+
+    const childTables: Record<string, DocTypeMeta> = {};
+    for (const field of fields) {
+      if (field.child_doctype && !seen.has(field.child_doctype) && byName.has(field.child_doctype)) {
+        childTables[field.fieldname] = build(field.child_doctype, seen);
+      }
+    }
+
+    return {
+      name,
+      module: doc.module || undefined,
+      is_submittable: !!doc.is_submittable,
+      is_table: !!doc.istable,
+      is_single: !!doc.issingle,
+      autoname: doc.autoname || undefined,
+      title_field: doc.title_field || undefined,
+      fields,
+      child_tables: childTables
+    };
+  };
+
+  return build(doctype, new Set());
+}
+
+/**
+ * Human-readable label for a document's docstatus
+ */
+export function describeDocstatus(docstatus: number | undefined): string {
+  switch (docstatus) {
+    case 0:
+      return 'Draft';
+    case 1:
+      return 'Submitted';
+    case 2:
+      return 'Cancelled';
+    default:
+      return `Unknown (docstatus ${docstatus})`;
+  }
+}
+
+/**
+ * System fields that must not be copied into an amended document or its child rows
+ */
+const NON_COPYABLE_FIELDS = new Set([
+  'name', 'owner', 'creation', 'modified', 'modified_by', 'docstatus', 'idx',
+  'parent', 'parentfield', 'parenttype', 'amended_from', 'amendment_date', 'cancel_reason',
+  '_user_tags', '_comments', '_assign', '_liked_by', '_seen'
+]);
+
+function copyRow(row: Record<string, any>): Record<string, any> {
+  const copy: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (!NON_COPYABLE_FIELDS.has(key) && !key.startsWith('__')) {
+      copy[key] = value;
+    }
+  }
+  return copy;
+}
+
+/**
+ * Build the draft amendment of a cancelled document, the same way the ERPNext UI does
+ * (copy every field and child row, link back through amended_from)
+ */
+export function buildAmendment(cancelled: Record<string, any>, changes: Record<string, any> = {}): Record<string, any> {
+  const amendment = copyRow(cancelled);
+
+  for (const [key, value] of Object.entries(amendment)) {
+    if (Array.isArray(value)) {
+      amendment[key] = value.map(row => (row && typeof row === 'object') ? copyRow(row) : row);
+    }
+  }
+
+  return {
+    ...amendment,
+    ...changes,
+    doctype: cancelled.doctype,
+    amended_from: cancelled.name,
+    docstatus: 0
+  };
+}
+
+/**
+ * A Link field value found in a document or one of its child table rows
+ */
+export interface LinkReference {
+  field: string;
+  doctype: string;
+  value: string;
+  table?: string;
+  row?: number;
+}
+
+/**
+ * Collect every Link field value in a document, including child table rows
+ */
+export function collectLinks(meta: DocTypeMeta, doc: Record<string, any>): LinkReference[] {
+  const links: LinkReference[] = [];
+
+  for (const field of meta.fields) {
+    const value = doc[field.fieldname];
+
+    if (field.link_doctype && typeof value === 'string' && value !== '') {
+      links.push({ field: field.fieldname, doctype: field.link_doctype, value });
+    }
+
+    const childMeta = meta.child_tables[field.fieldname];
+    if (childMeta && Array.isArray(value)) {
+      value.forEach((row, index) => {
+        if (!row || typeof row !== 'object') {
+          return;
+        }
+        for (const childField of childMeta.fields) {
+          const childValue = row[childField.fieldname];
+          if (childField.link_doctype && typeof childValue === 'string' && childValue !== '') {
+            links.push({
+              field: childField.fieldname,
+              doctype: childField.link_doctype,
+              value: childValue,
+              table: field.fieldname,
+              row: index
+            });
+          }
+        }
+      });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Mandatory fields that are empty and have no default (the server may still fill some, e.g. naming series)
+ */
+export function findMissingMandatory(meta: DocTypeMeta, doc: Record<string, any>): string[] {
+  const isEmpty = (value: any) => value === undefined || value === null || value === '' ||
+    (Array.isArray(value) && value.length === 0);
+
+  const missing: string[] = [];
+
+  for (const field of meta.fields) {
+    if (field.reqd && field.default === undefined && isEmpty(doc[field.fieldname])) {
+      missing.push(field.fieldname);
+    }
+
+    const childMeta = meta.child_tables[field.fieldname];
+    const rows = doc[field.fieldname];
+    if (childMeta && Array.isArray(rows)) {
+      rows.forEach((row, index) => {
+        for (const childField of childMeta.fields) {
+          if (childField.reqd && childField.default === undefined && isEmpty(row?.[childField.fieldname])) {
+            missing.push(`${field.fieldname}[${index}].${childField.fieldname}`);
+          }
+        }
+      });
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Field-level changes an update would make to the current document
+ */
+export function diffDocument(current: Record<string, any>, changes: Record<string, any>): FieldChange[] {
+  const diff: FieldChange[] = [];
+
+  for (const [field, value] of Object.entries(changes)) {
+    const before = current[field];
+    if (JSON.stringify(before ?? null) !== JSON.stringify(value ?? null)) {
+      diff.push({ field, from: before ?? null, to: value });
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,191 @@
+/**
+ * Frappe filter parsing and validation utilities for ERPNext MCP Server
+ */
+
+import {
+  DocFilters,
+  DocTypeMeta,
+  FilterCondition,
+  FilterOperator
+} from './types.js';
+
+export const FILTER_OPERATORS: FilterOperator[] = [
+  '=', '!=', '>', '<', '>=', '<=',
+  'like', 'not like',
+  'in', 'not in',
+  'between',
+  'is',
+  'timespan',
+  'descendants of', 'not descendants of',
+  'ancestors of', 'not ancestors of'
+];
+
+/**
+ * Fields every document has regardless of its DocType definition
+ */
+export const STANDARD_FIELDS = new Set([
+  'name', 'owner', 'creation', 'modified', 'modified_by', 'docstatus', 'idx',
+  'parent', 'parentfield', 'parenttype', '_user_tags', '_comments', '_assign', '_liked_by'
+]);
+
+/**
+ * JSON schema shared by tool arguments that accept Frappe filters
+ */
+export const FILTERS_SCHEMA = {
+  anyOf: [
+    {
+      type: "object",
+      additionalProperties: true
+    },
+    {
+      type: "array",
+      items: {
+        type: "array",
+        items: {}
+      }
+    }
+  ]
+};
+
+const FIELDNAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function validateOperatorValue(operator: FilterOperator, value: any, label: string): void {
+  switch (operator) {
+    case 'in':
+    case 'not in':
+      if (!Array.isArray(value) && typeof value !== 'string') {
+        throw new Error(`${label}: '${operator}' expects a list of values`);
+      }
+      break;
+    case 'between':
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new Error(`${label}: 'between' expects a [from, to] pair`);
+      }
+      break;
+    case 'is':
+      if (value !== 'set' && value !== 'not set') {
+        throw new Error(`${label}: 'is' expects 'set' or 'not set'`);
+      }
+      break;
+    case 'like':
+    case 'not like':
+      if (typeof value !== 'string') {
+        throw new Error(`${label}: '${operator}' expects a string pattern`);
+      }
+      break;
+    default:
+      if (value !== null && typeof value === 'object') {
+        throw new Error(`${label}: '${operator}' expects a single value`);
+      }
+  }
+}
+
+function parseOperator(operator: any, label: string): FilterOperator {
+  const normalized = typeof operator === 'string' ? operator.trim().toLowerCase() : operator;
+  if (!FILTER_OPERATORS.includes(normalized)) {
+    throw new Error(`${label}: unsupported operator '${operator}'. Supported: ${FILTER_OPERATORS.join(', ')}`);
+  }
+  return normalized;
+}
+
+function validateFieldname(fieldname: any, label: string): string {
+  if (typeof fieldname !== 'string' || !FIELDNAME_PATTERN.test(fieldname)) {
+    throw new Error(`${label}: invalid fieldname '${fieldname}'`);
+  }
+  return fieldname;
+}
+
+/**
+ * Parse a single list-form condition: [field, op, value] or [child_doctype, field, op, value]
+ */
+export function parseCondition(condition: any, label: string): FilterCondition {
+  if (!Array.isArray(condition)) {
+    throw new Error(`${label}: expected [field, operator, value] or [child_doctype, field, operator, value]`);
+  }
+
+  if (condition.length === 3) {
+    const fieldname = validateFieldname(condition[0], label);
+    const operator = parseOperator(condition[1], label);
+    validateOperatorValue(operator, condition[2], label);
+    return [fieldname, operator, condition[2]];
+  }
+
+  if (condition.length === 4) {
+    if (typeof condition[0] !== 'string' || condition[0].trim() === '') {
+      throw new Error(`${label}: child table condition needs a doctype name`);
+    }
+    const fieldname = validateFieldname(condition[1], label);
+    const operator = parseOperator(condition[2], label);
+    validateOperatorValue(operator, condition[3], label);
+    return [condition[0], fieldname, operator, condition[3]];
+  }
+
+  throw new Error(`${label}: expected 3 or 4 elements, got ${condition.length}`);
+}
+
+/**
+ * Validate filters given as {field: value}, {field: [op, value]} or a list of conditions,
+ * and return them in list form
+ */
+export function normalizeFilters(filters: DocFilters | undefined, name: string = 'filters'): FilterCondition[] {
+  if (filters === undefined || filters === null) {
+    return [];
+  }
+
+  if (Array.isArray(filters)) {
+    return filters.map((condition, index) => parseCondition(condition, `${name}[${index}]`));
+  }
+
+  if (typeof filters !== 'object') {
+    throw new Error(`${name} must be an object or a list of conditions`);
+  }
+
+  return Object.entries(filters).map(([fieldname, value]) => {
+    const label = `${name}.${fieldname}`;
+    validateFieldname(fieldname, label);
+
+    if (Array.isArray(value) && value.length === 2 && typeof value[0] === 'string' &&
+        FILTER_OPERATORS.includes(value[0].trim().toLowerCase() as FilterOperator)) {
+      const operator = parseOperator(value[0], label);
+      validateOperatorValue(operator, value[1], label);
+      return [fieldname, operator, value[1]] as FilterCondition;
+    }
+
+    if (Array.isArray(value)) {
+      return [fieldname, 'in', value] as FilterCondition;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      throw new Error(`${label}: expected a value or [operator, value]`);
+    }
+
+    return [fieldname, '=', value] as FilterCondition;
+  });
+}
+
+/**
+ * Check that every filtered field exists on the DocType (or the named child table DocType)
+ */
+export function validateFilterFields(conditions: FilterCondition[], meta: DocTypeMeta, name: string = 'filters'): void {
+  const fieldsByDoctype = new Map<string, Set<string>>();
+  const collect = (docMeta: DocTypeMeta) => {
+    fieldsByDoctype.set(docMeta.name, new Set(docMeta.fields.map(field => field.fieldname)));
+    Object.values(docMeta.child_tables).forEach(collect);
+  };
+  collect(meta);
+
+  conditions.forEach((condition, index) => {
+    const [doctype, fieldname] = condition.length === 4
+      ? [condition[0], condition[1]]
+      : [meta.name, condition[0]];
+
+    const fields = fieldsByDoctype.get(doctype);
+    if (!fields) {
+      throw new Error(`${name}[${index}]: ${doctype} is not a child table of ${meta.name}`);
+    }
+
+    if (!fields.has(fieldname) && !STANDARD_FIELDS.has(fieldname)) {
+      throw new Error(`${name}[${index}]: ${doctype} has no field '${fieldname}'`);
+    }
+  });
+}
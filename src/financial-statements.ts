@@ -0,0 +1,214 @@
+/**
+ * Financial statement utilities for ERPNext MCP Server
+ *
+ * Turns the raw columns/result payload of ERPNext's Balance Sheet, Profit and
+ * Loss Statement and Cash Flow reports into sections of lines with per-period
+ * amounts, and adds comparison and variance figures.
+ */
+
+import {
+  FinancialStatement,
+  Periodicity,
+  StatementKind,
+  StatementLine,
+  StatementPeriodColumn,
+  StatementSection
+} from './types.js';
+
+export const STATEMENT_REPORTS: Record<StatementKind, string> = {
+  balance_sheet: 'Balance Sheet',
+  profit_and_loss: 'Profit and Loss Statement',
+  cash_flow: 'Cash Flow'
+};
+
+export const PERIODICITIES: Record<Periodicity, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  half_yearly: 'Half-Yearly',
+  yearly: 'Yearly'
+};
+
+// Currency columns that are not a reporting period
+const NON_PERIOD_COLUMNS = new Set(['account', 'account_name', 'currency', 'total', 'parent_account', 'indent']);
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Split the report payload into period columns and sections. Balance sheet lines
+ * total to their closing balance (the last period); the other statements total
+ * their period amounts.
+ */
+export function normalizeStatement(
+  kind: StatementKind,
+  report: { columns?: any[]; result?: any[] }
+): { periods: StatementPeriodColumn[]; sections: StatementSection[]; currency?: string } {
+  const periods: StatementPeriodColumn[] = (report.columns || [])
+    .filter(column => column && typeof column === 'object' && column.fieldtype === 'Currency' && !NON_PERIOD_COLUMNS.has(column.fieldname))
+    .map(column => ({ key: column.fieldname, label: column.label || column.fieldname }));
+
+  const sections: StatementSection[] = [];
+  let current: StatementSection | undefined;
+  let currency: string | undefined;
+
+  for (const row of report.result || []) {
+    const rawLabel = row && typeof row === 'object' ? (row.account_name || row.account || row.section) : undefined;
+
+    // Blank rows separate the report's blocks
+    if (!rawLabel) {
+      current = undefined;
+      continue;
+    }
+
+    currency = currency || row.currency || undefined;
+    const label = String(rawLabel).replace(/^'(.*)'$/, '$1');
+    const isTotal = label !== String(rawLabel);
+    const indent = Number(row.indent) || 0;
+
+    const amounts: Record<string, number> = {};
+    for (const period of periods) {
+      amounts[period.key] = round(Number(row[period.key]) || 0);
+    }
+    const values = periods.map(period => amounts[period.key]);
+    const total = kind === 'balance_sheet'
+      ? (values.length > 0 ? values[values.length - 1] : 0)
+      : round(values.reduce((sum, value) => sum + value, 0));
+
+    const line: StatementLine = {
+      label,
+      account: isTotal ? undefined : (row.account || undefined),
+      parent_account: row.parent_account || undefined,
+      indent,
+      is_total: isTotal,
+      amounts,
+      total
+    };
+
+    if (!isTotal && indent === 0) {
+      current = { title: label, lines: [] };
+      sections.push(current);
+    } else if (!current) {
+      // Summary rows after the last block (net profit, provisional profit/loss, grand totals)
+      current = { title: 'Summary', lines: [] };
+      sections.push(current);
+    }
+    current.lines.push(line);
+  }
+
+  return { periods, sections, currency };
+}
+
+function lineKey(line: StatementLine): string {
+  return line.account ? `account:${line.account}` : `label:${line.label}`;
+}
+
+/**
+ * Totals of every line, keyed for matching against another run of the same report
+ */
+export function statementTotals(statement: Pick<FinancialStatement, 'sections'>): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const section of statement.sections) {
+    for (const line of section.lines) {
+      totals.set(lineKey(line), line.total);
+    }
+  }
+  return totals;
+}
+
+function setComparison(line: StatementLine, comparison: number): void {
+  line.comparison = round(comparison);
+  line.variance = round(line.total - comparison);
+  line.variance_percent = comparison !== 0 ? Math.round((line.variance / Math.abs(comparison)) * 1000) / 10 : null;
+}
+
+/**
+ * Compare each line with the same line of another period. Lines missing from the
+ * other period compare against zero.
+ */
+export function applyComparison(statement: FinancialStatement, comparisonTotals: Map<string, number>): void {
+  for (const section of statement.sections) {
+    for (const line of section.lines) {
+      setComparison(line, comparisonTotals.get(lineKey(line)) ?? 0);
+    }
+  }
+}
+
+/**
+ * Compare a profit and loss statement with budget amounts per account. Group
+ * accounts and section totals add up the budgets below them; net profit is
+ * budgeted income less budgeted expense.
+ */
+export function applyBudgetComparison(statement: FinancialStatement, budgets: Map<string, number>): void {
+  const accountLines = statement.sections.flatMap(section => section.lines).filter(line => line.account);
+
+  // Roll budgets up from each account to its ancestors within the report
+  const rolledUp = new Map<string, number>();
+  const parents = new Map(accountLines.map(line => [line.account!, line.parent_account]));
+  for (const [account, amount] of budgets) {
+    const seen = new Set<string>();
+    for (let node: string | undefined = account; node && !seen.has(node); node = parents.get(node)) {
+      seen.add(node);
+      rolledUp.set(node, (rolledUp.get(node) || 0) + amount);
+    }
+  }
+
+  const sectionTotals: number[] = [];
+  for (const section of statement.sections) {
+    const topLevel = section.lines
+      .filter(line => line.account && line.indent === 0)
+      .reduce((sum, line) => sum + (rolledUp.get(line.account!) || 0), 0);
+    if (section.title !== 'Summary') {
+      sectionTotals.push(topLevel);
+    }
+
+    for (const line of section.lines) {
+      if (line.account) {
+        setComparison(line, rolledUp.get(line.account) || 0);
+      } else if (section.title !== 'Summary') {
+        setComparison(line, topLevel);
+      } else if (sectionTotals.length === 2) {
+        // Income less expense
+        setComparison(line, sectionTotals[0] - sectionTotals[1]);
+      }
+    }
+  }
+}
+
+/**
+ * Plain text rendering: one row per line with period amounts, total and any comparison
+ */
+export function renderStatement(statement: FinancialStatement): string {
+  const headers = ['', ...statement.periods.map(period => period.label), 'Total'];
+  if (statement.comparison) {
+    headers.push('Compared', 'Variance', 'Var %');
+  }
+
+  const rows: string[][] = [];
+  for (const section of statement.sections) {
+    for (const line of section.lines) {
+      const cells = [
+        `${'  '.repeat(line.indent)}${line.label}`,
+        ...statement.periods.map(period => line.amounts[period.key].toFixed(2)),
+        line.total.toFixed(2)
+      ];
+      if (statement.comparison) {
+        cells.push(
+          line.comparison !== undefined ? line.comparison.toFixed(2) : '',
+          line.variance !== undefined ? line.variance.toFixed(2) : '',
+          line.variance_percent !== undefined && line.variance_percent !== null ? `${line.variance_percent.toFixed(1)}%` : ''
+        );
+      }
+      rows.push(cells);
+    }
+    rows.push([]);
+  }
+
+  const widths = headers.map((header, index) => Math.max(header.length, ...rows.map(row => (row[index] || '').length)));
+  const format = (cells: string[]) => cells
+    .map((cell, index) => index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index]))
+    .join('  ')
+    .trimEnd();
+
+  return [format(headers), ...rows.map(row => row.length === 0 ? '' : format(row))].join('\n').trimEnd();
+}
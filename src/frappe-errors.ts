@@ -0,0 +1,246 @@
+/**
+ * Frappe error decoding for ERPNext MCP Server
+ *
+ * Frappe reports failures as an HTTP status plus a JSON body carrying exc_type,
+ * exception and _server_messages. These are decoded into typed errors with a
+ * readable message and mapped onto MCP error codes.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+export interface FrappeErrorDetails {
+  status?: number;
+  exc_type?: string;
+  server_messages: string[];
+  method?: string;
+  url?: string;
+  retry_after_ms?: number;
+}
+
+/**
+ * Base class for every error decoded from a Frappe response (or the lack of one)
+ */
+export class FrappeError extends Error {
+  constructor(message: string, public details: FrappeErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  get status(): number | undefined {
+    return this.details.status;
+  }
+
+  get excType(): string | undefined {
+    return this.details.exc_type;
+  }
+
+  /**
+   * The same error with a message prefixed by what the caller was doing
+   */
+  withContext(context: string): FrappeError {
+    const ErrorClass = this.constructor as new (message: string, details: FrappeErrorDetails) => FrappeError;
+    const error = new ErrorClass(`${context}: ${this.message}`, this.details);
+    error.stack = this.stack;
+    return error;
+  }
+}
+
+export class ValidationError extends FrappeError {}
+export class LinkValidationError extends ValidationError {}
+export class MandatoryError extends ValidationError {}
+export class DuplicateEntryError extends ValidationError {}
+export class TimestampMismatchError extends ValidationError {}
+export class DoesNotExistError extends FrappeError {}
+export class PermissionError extends FrappeError {}
+export class AuthenticationError extends FrappeError {}
+export class RateLimitError extends FrappeError {}
+export class ServerError extends FrappeError {}
+export class NetworkError extends FrappeError {}
+
+type FrappeErrorClass = new (message: string, details: FrappeErrorDetails) => FrappeError;
+
+const EXC_TYPE_CLASSES: Record<string, FrappeErrorClass> = {
+  ValidationError,
+  LinkValidationError,
+  MandatoryError,
+  DuplicateEntryError,
+  UniqueValidationError: DuplicateEntryError,
+  TimestampMismatchError,
+  DoesNotExistError,
+  PermissionError,
+  AuthenticationError,
+  SessionExpired: AuthenticationError,
+  CSRFTokenError: AuthenticationError,
+  RateLimitExceededError: RateLimitError,
+  // Other ValidationError subclasses raised by Frappe and ERPNext
+  InvalidStatusError: ValidationError,
+  CannotChangeConstantError: ValidationError,
+  UpdateAfterSubmitError: ValidationError,
+  LinkExistsError: ValidationError,
+  CharacterLengthExceededError: ValidationError,
+  InvalidEmailAddressError: ValidationError,
+  NameError: ValidationError
+};
+
+const STATUS_CLASSES: Record<number, FrappeErrorClass> = {
+  401: AuthenticationError,
+  403: PermissionError,
+  404: DoesNotExistError,
+  409: DuplicateEntryError,
+  417: ValidationError,
+  429: RateLimitError
+};
+
+/**
+ * Strip HTML tags and entities Frappe puts in user-facing messages
+ */
+export function cleanMessage(message: string): string {
+  return message
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Decode _server_messages: a JSON list of JSON-encoded { message, title } objects
+ */
+export function parseServerMessages(raw: unknown): string[] {
+  if (typeof raw !== 'string' || raw === '') {
+    return [];
+  }
+
+  let list: unknown;
+  try {
+    list = JSON.parse(raw);
+  } catch (error) {
+    return [cleanMessage(raw)];
+  }
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  return list
+    .map(item => {
+      let value: any = item;
+      if (typeof item === 'string') {
+        try {
+          value = JSON.parse(item);
+        } catch (error) {
+          value = item;
+        }
+      }
+      return cleanMessage(typeof value === 'string' ? value : String(value?.message ?? ''));
+    })
+    .filter(message => message !== '');
+}
+
+/**
+ * Turn an axios error (or anything thrown by a request) into a typed Frappe error
+ */
+export function parseFrappeError(error: any): FrappeError {
+  if (error instanceof FrappeError) {
+    return error;
+  }
+
+  const response = error?.response;
+  const data = response?.data && typeof response.data === 'object' ? response.data : {};
+  const method = error?.config?.method?.toUpperCase();
+  const url = error?.config?.url;
+
+  if (!response) {
+    const code = error?.code ? ` (${error.code})` : '';
+    return new NetworkError(`Could not reach ERPNext${code}: ${error?.message || 'Unknown error'}`, {
+      server_messages: [],
+      method,
+      url
+    });
+  }
+
+  const status: number = response.status;
+  const exception = typeof data.exception === 'string' ? data.exception : '';
+  const excType: string | undefined = data.exc_type ||
+    (exception.match(/^(?:[\w.]+\.)?(\w+)(?::|$)/)?.[1]) ||
+    undefined;
+
+  const serverMessages = parseServerMessages(data._server_messages);
+  let message = serverMessages.join('; ');
+  if (!message && exception) {
+    message = cleanMessage(exception.replace(/^[\w.]+:\s*/, ''));
+  }
+  if (!message && typeof data.message === 'string') {
+    message = cleanMessage(data.message);
+  }
+  if (!message && typeof data._error_message === 'string') {
+    message = cleanMessage(data._error_message);
+  }
+  if (!message) {
+    message = response.statusText || `HTTP ${status}`;
+  }
+
+  const retryAfter = Number(response.headers?.['retry-after']);
+
+  const ErrorClass = (excType && EXC_TYPE_CLASSES[excType]) ||
+    STATUS_CLASSES[status] ||
+    (status >= 500 ? ServerError : FrappeError);
+
+  return new ErrorClass(`${excType || `HTTP ${status}`}: ${message}`, {
+    status,
+    exc_type: excType,
+    server_messages: serverMessages,
+    method,
+    url,
+    retry_after_ms: Number.isFinite(retryAfter) && retryAfter >= 0 ? retryAfter * 1000 : undefined
+  });
+}
+
+/**
+ * Prefix an error with what the caller was doing, keeping its Frappe error type
+ */
+export function withContext(error: any, context: string): Error {
+  if (error instanceof FrappeError) {
+    return error.withContext(context);
+  }
+  return new Error(`${context}: ${error?.message || 'Unknown error'}`);
+}
+
+/**
+ * MCP error code for a Frappe error
+ */
+export function mcpErrorCode(error: FrappeError): ErrorCode {
+  if (error instanceof ValidationError || error instanceof DoesNotExistError) {
+    return ErrorCode.InvalidParams;
+  }
+  if (error instanceof PermissionError || error instanceof AuthenticationError) {
+    return ErrorCode.InvalidRequest;
+  }
+  if (error instanceof NetworkError && /timeout|ETIMEDOUT|ECONNABORTED/i.test(error.message)) {
+    return ErrorCode.RequestTimeout;
+  }
+  return ErrorCode.InternalError;
+}
+
+/**
+ * Type, status and server messages of a Frappe error, for error data or result metadata
+ */
+export function frappeErrorData(error: FrappeError): Record<string, unknown> {
+  return {
+    exc_type: error.excType,
+    status: error.status,
+    error_type: error.name,
+    server_messages: error.details.server_messages
+  };
+}
+
+/**
+ * Convert a Frappe error into an McpError carrying its type and status
+ */
+export function toMcpError(error: FrappeError): McpError {
+  return new McpError(mcpErrorCode(error), error.message, frappeErrorData(error));
+}
@@ -0,0 +1,67 @@
+/**
+ * General ledger utilities for ERPNext MCP Server
+ */
+
+import { GeneralLedgerEntry, GeneralLedgerGroup } from './types.js';
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Turn GL Entry rows (in posting order) into ledger lines with a running balance
+ */
+export function withRunningBalance(rows: Record<string, any>[], openingBalance: number): GeneralLedgerEntry[] {
+  let balance = openingBalance;
+  return rows.map(row => {
+    const debit = Number(row.debit) || 0;
+    const credit = Number(row.credit) || 0;
+    balance = round(balance + debit - credit);
+    return {
+      gl_entry: row.name,
+      posting_date: row.posting_date,
+      account: row.account,
+      debit: round(debit),
+      credit: round(credit),
+      balance,
+      voucher_type: row.voucher_type,
+      voucher_no: row.voucher_no,
+      party_type: row.party_type || undefined,
+      party: row.party || undefined,
+      against: row.against || undefined,
+      cost_center: row.cost_center || undefined,
+      remarks: row.remarks || undefined
+    };
+  });
+}
+
+/**
+ * Turn GL Entry totals grouped per voucher or per party into ledger groups: vouchers in
+ * posting order with the running balance after each, parties by largest net movement first
+ */
+export function ledgerGroups(
+  rows: Record<string, any>[],
+  groupBy: 'voucher' | 'party',
+  openingBalance: number
+): GeneralLedgerGroup[] {
+  const groups: GeneralLedgerGroup[] = rows.map(row => {
+    const debit = round(Number(row.debit) || 0);
+    const credit = round(Number(row.credit) || 0);
+    const totals = { posting_date: row.posting_date, entry_count: Number(row.entry_count) || 0, debit, credit, net: round(debit - credit) };
+    return groupBy === 'voucher'
+      ? { key: `${row.voucher_type} ${row.voucher_no}`, voucher_type: row.voucher_type, voucher_no: row.voucher_no, ...totals }
+      : { key: row.party ? `${row.party_type} ${row.party}` : '(no party)', party_type: row.party_type || undefined, party: row.party || undefined, ...totals };
+  });
+
+  if (groupBy === 'party') {
+    return groups.sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+  }
+
+  groups.sort((a, b) => (a.posting_date || '').localeCompare(b.posting_date || '') || a.key.localeCompare(b.key));
+  let balance = openingBalance;
+  for (const group of groups) {
+    balance = round(balance + group.net);
+    group.balance = balance;
+  }
+  return groups;
+}
@@ -0,0 +1,76 @@
+/**
+ * Retry policy for ERPNext HTTP requests for ERPNext MCP Server
+ */
+
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { FrappeError, NetworkError, parseFrappeError } from './frappe-errors.js';
+
+export interface RetryOptions {
+  max_retries: number;
+  base_delay_ms: number;
+  max_delay_ms: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  max_retries: 3,
+  base_delay_ms: 500,
+  max_delay_ms: 30000
+};
+
+// Repeating these has the same effect as sending them once
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+type RetryableConfig = InternalAxiosRequestConfig & { retryCount?: number };
+
+/**
+ * Whether a failed request may be sent again
+ */
+export function isRetryable(error: FrappeError, method: string | undefined): boolean {
+  // Rate-limited requests were rejected before they ran, whatever the method
+  if (error.status === 429) {
+    return true;
+  }
+  if (!IDEMPOTENT_METHODS.has((method || 'GET').toUpperCase())) {
+    return false;
+  }
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  // A 5xx with an exc_type is an application exception and would fail the same way again
+  return error.status !== undefined && error.status >= 500 && error.status !== 501 && !error.excType;
+}
+
+/**
+ * Exponential backoff with jitter for a retry attempt (0-based), honouring Retry-After
+ */
+export function retryDelay(attempt: number, error: FrappeError, options: RetryOptions = DEFAULT_RETRY_OPTIONS): number {
+  const backoff = Math.min(options.max_delay_ms, options.base_delay_ms * 2 ** attempt);
+  const jittered = backoff / 2 + Math.random() * (backoff / 2);
+  const retryAfter = Math.min(options.max_delay_ms, error.details.retry_after_ms ?? 0);
+  return Math.round(Math.max(jittered, retryAfter));
+}
+
+/**
+ * Decode every failed response into a typed Frappe error, retrying the ones that
+ * are safe to repeat
+ */
+export function attachRetry(instance: AxiosInstance, options: RetryOptions = DEFAULT_RETRY_OPTIONS): void {
+  instance.interceptors.response.use(undefined, async (rawError: any) => {
+    // Errors raised before a request was sent (e.g. by a request interceptor) pass through
+    if (!rawError?.isAxiosError && !(rawError instanceof FrappeError)) {
+      throw rawError;
+    }
+
+    const error = parseFrappeError(rawError);
+    const config = rawError?.config as RetryableConfig | undefined;
+    const attempt = config?.retryCount ?? 0;
+
+    if (config && attempt < options.max_retries && isRetryable(error, config.method)) {
+      config.retryCount = attempt + 1;
+      await new Promise(resolve => setTimeout(resolve, retryDelay(attempt, error, options)));
+      return instance.request(config);
+    }
+
+    throw error;
+  });
+}
@@ -0,0 +1,266 @@
+/**
+ * Streamable HTTP transport for ERPNext MCP Server
+ *
+ * Serves the MCP streamable HTTP protocol (JSON responses or SSE streams) on one
+ * path, with a bearer token check. Every client session gets its own MCP server
+ * and transport; shutdown closes the sessions and waits for open requests.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { realpath } from 'fs/promises';
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'http';
+import { resolve, sep } from 'path';
+import { numberFromEnv } from './concurrency.js';
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  path: string;
+  token?: string;
+  max_body_bytes: number;
+  file_dir?: string; // the only directory callers may name files in
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close(timeoutMs?: number): Promise<void>;
+}
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+/**
+ * Value of a `--name value` or `--name=value` command line flag
+ */
+function flagValue(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(`--${name}=`)) {
+      return argv[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The transport selected with --transport / --http or ERPNEXT_MCP_TRANSPORT (stdio by default)
+ */
+export function selectedTransport(argv: string[] = process.argv.slice(2)): 'stdio' | 'http' {
+  const value = argv.includes('--http') ? 'http' : (flagValue(argv, 'transport') || process.env.ERPNEXT_MCP_TRANSPORT || 'stdio');
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`Unknown transport: ${value} (expected stdio or http)`);
+  }
+  return value;
+}
+
+/**
+ * HTTP settings from command line flags, falling back to ERPNEXT_MCP_HTTP_* variables
+ */
+export function httpOptions(argv: string[] = process.argv.slice(2)): HttpOptions {
+  const host = flagValue(argv, 'host') || process.env.ERPNEXT_MCP_HTTP_HOST || '127.0.0.1';
+  const portFlag = flagValue(argv, 'port');
+  const port = portFlag !== undefined ? Number(portFlag) : numberFromEnv('ERPNEXT_MCP_HTTP_PORT', 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${portFlag ?? port}`);
+  }
+
+  const path = flagValue(argv, 'path') || process.env.ERPNEXT_MCP_HTTP_PATH || '/mcp';
+  const token = process.env.ERPNEXT_MCP_HTTP_TOKEN || undefined;
+
+  // Anyone who can reach the port acts with the server's ERPNext credentials
+  if (!token && !LOOPBACK_HOSTS.has(host)) {
+    throw new Error(`ERPNEXT_MCP_HTTP_TOKEN is required to listen on ${host}; only loopback addresses may run without one`);
+  }
+
+  return {
+    host,
+    port,
+    path: path.startsWith('/') ? path : `/${path}`,
+    token,
+    max_body_bytes: numberFromEnv('ERPNEXT_MCP_HTTP_MAX_BODY_BYTES', 10 * 1024 * 1024),
+    file_dir: process.env.ERPNEXT_MCP_HTTP_FILE_DIR || undefined
+  };
+}
+
+/**
+ * Resolve a file path sent by an HTTP caller, which may only name files inside
+ * fileDir (relative paths are taken from there). Without fileDir no file may be read.
+ */
+export async function confinedFilePath(filePath: string, fileDir: string | undefined): Promise<string> {
+  if (!fileDir) {
+    throw new Error('reading server files is disabled over HTTP; send the content instead, or set ERPNEXT_MCP_HTTP_FILE_DIR');
+  }
+
+  const root = await realpath(fileDir);
+  const inside = (path: string) => path === root || path.startsWith(root + sep);
+
+  // Check the path as written first, so files outside the directory are never touched
+  const requested = resolve(root, filePath);
+  if (!inside(requested)) {
+    throw new Error(`must be inside ${fileDir}`);
+  }
+
+  // Then follow symlinks, which may point out of the directory
+  const target = await realpath(requested).catch(() => {
+    throw new Error(`${filePath} not found in ${fileDir}`);
+  });
+  if (!inside(target)) {
+    throw new Error(`must be inside ${fileDir}`);
+  }
+  return target;
+}
+
+// Compare digests so the check takes the same time whatever the token length
+function tokenMatches(header: string | undefined, token: string): boolean {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+function readBody(req: IncomingMessage, limit: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new Error(`Request body larger than ${limit} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const text = Buffer.concat(chunks).toString('utf8');
+        resolve(text === '' ? undefined : JSON.parse(text));
+      } catch (error) {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Start serving MCP over streamable HTTP. `createServer` builds the MCP server for each new session.
+ */
+export async function startHttpServer(createServer: () => Server, options: HttpOptions): Promise<HttpServerHandle> {
+  const sessions = new Map<string, { transport: StreamableHTTPServerTransport; server: Server }>();
+  let closing = false;
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== options.path) {
+      sendJsonRpcError(res, 404, `Not found; the MCP endpoint is ${options.path}`);
+      return;
+    }
+    if (options.token && !tokenMatches(req.headers.authorization, options.token)) {
+      sendJsonRpcError(res, 401, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+    if (closing) {
+      sendJsonRpcError(res, 503, 'Server is shutting down', { 'Connection': 'close' });
+      return;
+    }
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === 'POST' ? await readBody(req, options.max_body_bytes) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, 'Unknown or expired session; initialize a new one');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'No session: send an initialize request first');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, server });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((error: any) => {
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 400, error?.message || 'Bad request');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = address && typeof address === 'object' ? address.port : options.port;
+  const host = options.host.includes(':') ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${host}:${port}${options.path}`,
+
+    // Stop accepting connections, close every session (ending its SSE streams),
+    // then wait for in-flight requests up to timeoutMs before dropping them
+    async close(timeoutMs: number = 10000): Promise<void> {
+      closing = true;
+      const stopped = new Promise<void>(resolve => httpServer.close(() => resolve()));
+
+      await Promise.all([...sessions.values()].map(async session => {
+        try {
+          await session.server.close();
+        } catch (error) {
+          // Already closed
+        }
+      }));
+      sessions.clear();
+      httpServer.closeIdleConnections();
+
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = new Promise<void>(resolve => {
+        timer = setTimeout(() => {
+          httpServer.closeAllConnections();
+          resolve();
+        }, timeoutMs);
+      });
+      await Promise.race([stopped, timedOut]);
+      clearTimeout(timer);
+    }
+  };
+}
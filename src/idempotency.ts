@@ -0,0 +1,114 @@
+/**
+ * Idempotency key utilities for ERPNext MCP Server
+ *
+ * A key is stamped on the created document (a custom field when the DocType has
+ * one, or a marker in a Journal Entry's user_remark) and, when configured,
+ * recorded in a local JSON ledger, so a retried call can find the original.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { IdempotencyRecord } from './types.js';
+
+const MAX_KEY_LENGTH = 140;
+
+/**
+ * Check that an idempotency key is usable in a remark marker and a LIKE filter
+ */
+export function validateIdempotencyKey(key: unknown): string {
+  if (typeof key !== 'string' || key.trim() === '') {
+    throw new Error('idempotency_key must be a non-empty string');
+  }
+  const trimmed = key.trim();
+  if (trimmed.length > MAX_KEY_LENGTH) {
+    throw new Error(`idempotency_key must be at most ${MAX_KEY_LENGTH} characters`);
+  }
+  if (/[\[\]%\\]/.test(trimmed)) {
+    throw new Error('idempotency_key must not contain [, ], % or \\');
+  }
+  return trimmed;
+}
+
+/**
+ * Marker appended to a remark to tag a document with its idempotency key
+ */
+export function remarkMarker(key: string): string {
+  return `[idempotency-key:${key}]`;
+}
+
+/**
+ * LIKE pattern finding remarks that contain a key's marker. The key cannot hold %
+ * or \, but _ is a LIKE wildcard too and is escaped.
+ */
+export function remarkLikePattern(key: string): string {
+  return `%${remarkMarker(key).replace(/_/g, '\\_')}%`;
+}
+
+/**
+ * Append the idempotency marker to a remark, keeping any existing text
+ */
+export function withRemarkMarker(remark: string | undefined, key: string): string {
+  const marker = remarkMarker(key);
+  if (remark && remark.includes(marker)) {
+    return remark;
+  }
+  return remark ? `${remark}\n${marker}` : marker;
+}
+
+/**
+ * Local JSON file mapping idempotency keys to the documents they created, per site.
+ * Share one instance per file so concurrent writes are serialized.
+ */
+export class IdempotencyLedger {
+  private records?: Record<string, IdempotencyRecord>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private async load(): Promise<Record<string, IdempotencyRecord>> {
+    if (!this.records) {
+      try {
+        const raw = JSON.parse(await readFile(this.filePath, 'utf8'));
+        this.records = raw && typeof raw.entries === 'object' ? raw.entries : {};
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          throw new Error(`Failed to read idempotency ledger ${this.filePath}: ${error?.message || 'Unknown error'}`);
+        }
+        this.records = {};
+      }
+    }
+    return this.records!;
+  }
+
+  async get(site: string, key: string): Promise<IdempotencyRecord | undefined> {
+    const records = await this.load();
+    return records[`${site}:${key}`];
+  }
+
+  async record(entry: IdempotencyRecord): Promise<void> {
+    const records = await this.load();
+    records[`${entry.site}:${entry.key}`] = entry;
+    await this.save(records);
+  }
+
+  async remove(site: string, key: string): Promise<void> {
+    const records = await this.load();
+    if (records[`${site}:${key}`]) {
+      delete records[`${site}:${key}`];
+      await this.save(records);
+    }
+  }
+
+  // Write to a temporary file first so a crash never leaves a truncated ledger.
+  // Writes are chained so concurrent batch entries never race on the temporary file.
+  private save(records: Record<string, IdempotencyRecord>): Promise<void> {
+    const write = this.writing.catch(() => undefined).then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tmpPath, JSON.stringify({ entries: records }, null, 2), 'utf8');
+      await rename(tmpPath, this.filePath);
+    });
+    this.writing = write;
+    return write;
+  }
+}
@@ -13,40 +13,215 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  CallToolResult,
   ErrorCode,
   ListResourcesRequestSchema,
   ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequest,
   ReadResourceRequestSchema
 } from "@modelcontextprotocol/sdk/types.js";
-import axios, { AxiosInstance } from "axios";
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
 import {
   BankTransaction,
   BankAccount,
   JournalEntry,
   JournalEntryValidation,
-  BatchJournalEntryResult
+  BatchJournalEntryResult,
+  BatchJournalEntryCreatedEntry,
+  BatchJournalEntryError,
+  BatchRollbackReport,
+  DocFilters,
+  DocTypeMeta,
+  DryRunResult,
+  IdempotentCreateResult,
+  Policy,
+  SiteConfig,
+  SiteProfile,
+  AccountTreeNode,
+  FiscalYear,
+  PeriodSpec,
+  PeriodPreset,
+  PeriodRange,
+  ReportingPeriod,
+  StatementKind,
+  Periodicity,
+  ComparisonBasis,
+  FinancialStatement,
+  GeneralLedger,
+  GeneralLedgerQuery,
+  AccountMapping,
+  ConsolidatedReport,
+  ConsolidatedReportKind,
+  ConsolidationEntity,
+  EntityAccountAmount,
+  LinkCheck,
+  ListPageOptions,
+  PaginatedResult,
+  MatchingOptions,
+  BankReconciliationAllocation,
+  BankReconciliationResult,
+  BankImportMapping,
+  BankImportResult,
+  DateOrder,
+  DecimalSeparator,
+  DuplicateCheckResult,
+  CategorizationResult,
+  StatementFormat,
+  ReconciliationCandidate,
+  ReconciliationSuggestion
 } from './types.js';
-
-// ERPNext API client configuration
+import {
+  LinkReference,
+  buildAmendment,
+  buildDocTypeMeta,
+  collectLinks,
+  describeDocstatus,
+  diffDocument,
+  findMissingMandatory
+} from './doctype-utils.js';
+import {
+  FILTERS_SCHEMA,
+  STANDARD_FIELDS,
+  normalizeFilters,
+  validateFilterFields
+} from './filter-utils.js';
+import {
+  DEFAULT_MATCHING_OPTIONS,
+  addDays,
+  rankCandidates
+} from './reconciliation-utils.js';
+import {
+  loadStatement,
+  parseMappedRows
+} from './statement-parsers.js';
+import {
+  classifyDuplicates,
+  guessImportMapping
+} from './bank-utils.js';
+import {
+  BankAccountPosting,
+  CompiledRule,
+  categorizeTransactions,
+  loadRules
+} from './categorization-rules.js';
+import { CookieJar } from './session.js';
+import { OAuthClient, parseAuthorizationResponse } from './oauth.js';
+import {
+  AuthenticationError,
+  FrappeError,
+  PermissionError,
+  frappeErrorData,
+  mcpErrorCode,
+  withContext
+} from './frappe-errors.js';
+import { loadSiteConfig } from './sites.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  attachRetry
+} from './http-retry.js';
+import {
+  TokenBucket,
+  mapWithConcurrency,
+  numberFromEnv
+} from './concurrency.js';
+import {
+  IdempotencyLedger,
+  remarkLikePattern,
+  remarkMarker,
+  validateIdempotencyKey,
+  withRemarkMarker
+} from './idempotency.js';
+import {
+  DEFAULT_POLICY,
+  DryRunTracker,
+  PolicyError,
+  WRITE_TOOLS,
+  callFingerprint,
+  checkDoctype,
+  checkJournalEntryAmount,
+  checkToolCall,
+  isDryRunCall,
+  isToolVisible,
+  loadPolicy,
+  storedJournalEntryName
+} from './policy.js';
+import {
+  AuditLog,
+  auditLogPath,
+  collectAuditDocuments,
+  isAuditing,
+  recordAuditDocument,
+  redactArguments
+} from './audit.js';
+import {
+  buildAccountTree,
+  countAccounts,
+  pruneZeroBalances,
+  renderAccountTree
+} from './account-tree.js';
+import {
+  PERIOD_PRESETS,
+  daysBetween,
+  fiscalYearOf,
+  fiscalYearsForCompany,
+  priorPeriod,
+  priorYearPeriod,
+  resolvePeriod,
+  resolvePeriodRange
+} from './periods.js';
+import {
+  PERIODICITIES,
+  STATEMENT_REPORTS,
+  applyBudgetComparison,
+  applyComparison,
+  normalizeStatement,
+  renderStatement,
+  statementTotals
+} from './financial-statements.js';
+import { ledgerGroups, withRunningBalance } from './general-ledger.js';
+import { SIGN_CONVENTIONS, companyGroup, consolidate, renderConsolidation } from './consolidation.js';
+import { confinedFilePath, httpOptions, selectedTransport, startHttpServer } from './http-transport.js';
+import {
+  PAGINATION_SCHEMA_PROPERTIES,
+  encodeCursor,
+  parsePageArguments,
+  resolvePage
+} from './list-utils.js';
+
+// Endpoints used to manage the session itself, never retried with a fresh login
+const SESSION_ENDPOINTS = [
+  '/api/method/login',
+  '/api/method/logout',
+  '/api/method/frappe.auth.get_logged_user'
+];
+
+// Voucher names sent per GL Entry request when totalling a list of vouchers
+const VOUCHER_CHUNK_SIZE = 100;
+
+// ERPNext API client for one site
 class ERPNextClient {
-  private baseUrl: string;
+  readonly site: string;
+  readonly baseUrl: string;
   private axiosInstance: AxiosInstance;
   private authenticated: boolean = false;
-
-  constructor() {
-    // Get ERPNext configuration from environment variables
-    this.baseUrl = process.env.ERPNEXT_URL || '';
-    
-    // Validate configuration
-    if (!this.baseUrl) {
-      throw new Error("ERPNEXT_URL environment variable is required");
-    }
-    
-    // Remove trailing slash if present
-    this.baseUrl = this.baseUrl.replace(/\/$/, '');
+  private idempotencyLedger?: IdempotencyLedger;
+  private idempotencyField: string;
+  private concurrency: number;
+  private rateLimiter: TokenBucket;
+  private doctypeCache = new Map<string, DocTypeMeta>();
+  private apiKeyAuthorization?: string;
+  private cookies = new CookieJar();
+  private session?: { username: string; password: string; user: string };
+  private relogin?: Promise<void>;
+  readonly oauth?: OAuthClient;
+
+  constructor(profile: SiteProfile, idempotencyLedger?: IdempotencyLedger) {
+    this.site = profile.name;
+    this.baseUrl = profile.url;
     
     // Initialize axios instance
     this.axiosInstance = axios.create({
@@ -59,18 +234,190 @@ class ERPNextClient {
     });
     
     // Configure authentication if credentials provided
-    const apiKey = process.env.ERPNEXT_API_KEY;
-    const apiSecret = process.env.ERPNEXT_API_SECRET;
-    
-    if (apiKey && apiSecret) {
-      this.axiosInstance.defaults.headers.common['Authorization'] = 
-        `token ${apiKey}:${apiSecret}`;
+    if (profile.api_key && profile.api_secret) {
+      this.apiKeyAuthorization = `token ${profile.api_key}:${profile.api_secret}`;
+      this.axiosInstance.defaults.headers.common['Authorization'] = this.apiKeyAuthorization;
       this.authenticated = true;
     }
+
+    // OAuth2 bearer tokens, when the site has an OAuth client configured
+    if (profile.oauth) {
+      this.oauth = new OAuthClient(this.baseUrl, profile.oauth, this.site);
+    }
+
+    // Idempotency keys are stored in this custom field when a DocType has it, and
+    // optionally recorded in a local ledger file as well
+    this.idempotencyField = process.env.ERPNEXT_IDEMPOTENCY_FIELD || 'custom_idempotency_key';
+    this.idempotencyLedger = idempotencyLedger;
+
+    // Batch tools run up to ERPNEXT_CONCURRENCY operations at once, and every request
+    // waits for a token from a bucket refilled at ERPNEXT_RATE_LIMIT requests per second.
+    // A site profile can override each setting.
+    this.concurrency = Math.max(1, Math.floor(profile.concurrency ?? numberFromEnv('ERPNEXT_CONCURRENCY', 4)));
+    const rateLimit = profile.rate_limit ?? numberFromEnv('ERPNEXT_RATE_LIMIT', 10);
+    this.rateLimiter = new TokenBucket(rateLimit, Math.max(1, profile.rate_burst ?? numberFromEnv('ERPNEXT_RATE_BURST', rateLimit)));
+    this.axiosInstance.interceptors.request.use(async config => {
+      await this.rateLimiter.take();
+      return config;
+    });
+
+    // Session login: send the site's cookies, keep the ones it sets, and log in again
+    // once when a request fails because the session expired. Without a session, an
+    // OAuth access token (refreshed when it expires) replaces the API key; when the
+    // token cannot be refreshed, requests go out with the API key instead.
+    this.axiosInstance.interceptors.request.use(async config => {
+      const cookie = this.cookies.header();
+      if (cookie) {
+        config.headers.set('Cookie', cookie);
+      }
+      if (!this.session && this.oauth && !SESSION_ENDPOINTS.some(endpoint => config.url?.startsWith(endpoint))) {
+        let accessToken: string | undefined;
+        try {
+          accessToken = await this.oauth.getAccessToken();
+        } catch (error) {
+          // The refresh failed; a rejected refresh token is not tried again
+        }
+        if (accessToken) {
+          config.headers.set('Authorization', `Bearer ${accessToken}`);
+        } else if (this.apiKeyAuthorization) {
+          config.headers.set('Authorization', this.apiKeyAuthorization);
+        } else {
+          config.headers.delete('Authorization');
+        }
+      }
+      return config;
+    });
+    this.axiosInstance.interceptors.response.use(
+      response => {
+        this.cookies.store(response.headers['set-cookie']);
+        return response;
+      },
+      async error => {
+        this.cookies.store(error?.response?.headers?.['set-cookie']);
+        const config = error?.config as (InternalAxiosRequestConfig & { authRetried?: boolean }) | undefined;
+        const status = error?.response?.status;
+        if (!config || config.authRetried || SESSION_ENDPOINTS.some(endpoint => config.url?.startsWith(endpoint))) {
+          throw error;
+        }
+        if (this.session && (status === 401 || status === 403) && await this.sessionExpired()) {
+          config.authRetried = true;
+          await this.refreshSession();
+          return this.axiosInstance.request(config);
+        }
+        // A rejected bearer token may have been revoked or expired early
+        if (!this.session && this.oauth && status === 401 && config.headers.get('Authorization')?.toString().startsWith('Bearer ')) {
+          config.authRetried = true;
+          try {
+            await this.oauth.refresh();
+          } catch (refreshError) {
+            // Without a new token the retry can only use the API key
+            if (!this.apiKeyAuthorization) {
+              throw refreshError;
+            }
+          }
+          return this.axiosInstance.request(config);
+        }
+        throw error;
+      }
+    );
+
+    // Failed responses become typed Frappe errors; idempotent requests are retried
+    // on 429, 5xx and network errors with exponential backoff
+    attachRetry(this.axiosInstance, {
+      max_retries: Math.floor(profile.max_retries ?? numberFromEnv('ERPNEXT_MAX_RETRIES', DEFAULT_RETRY_OPTIONS.max_retries)),
+      base_delay_ms: numberFromEnv('ERPNEXT_RETRY_BASE_MS', DEFAULT_RETRY_OPTIONS.base_delay_ms),
+      max_delay_ms: DEFAULT_RETRY_OPTIONS.max_delay_ms
+    });
+  }
+
+  // Whether requests will be authenticated: an active session, a valid (or refreshable)
+  // OAuth token, or API keys
+  async isAuthenticated(): Promise<boolean> {
+    return (await this.authMethod()) !== 'none';
+  }
+
+  // How requests are authenticated: a login session, then an OAuth token, then API keys
+  async authMethod(): Promise<'session' | 'oauth' | 'api_key' | 'none'> {
+    if (this.session) {
+      return 'session';
+    }
+    if (this.oauth) {
+      try {
+        if (await this.oauth.getAccessToken()) {
+          return 'oauth';
+        }
+      } catch (error) {
+        // The refresh token was rejected; fall back to API keys if there are any
+      }
+    }
+    return this.authenticated ? 'api_key' : 'none';
+  }
+
+  // Log in with a username and password; later requests act with that user's permissions
+  async login(username: string, password: string): Promise<{ user: string; full_name?: string }> {
+    this.session = undefined;
+    this.cookies.clear();
+    // Frappe prefers an Authorization header over the session cookie, so drop the API key
+    delete this.axiosInstance.defaults.headers.common['Authorization'];
+
+    try {
+      const response = await this.axiosInstance.post('/api/method/login', {
+        usr: username,
+        pwd: password
+      });
+      const user = this.cookies.get('user_id') ? decodeURIComponent(this.cookies.get('user_id')!) : username;
+      this.session = { username, password, user };
+      return { user, full_name: response.data?.full_name };
+    } catch (error: any) {
+      this.restoreApiKey();
+      throw withContext(error, `Failed to log in to ${this.site} as ${username}`);
+    }
+  }
+
+  // End the login session and fall back to the site's API key, if it has one
+  async logout(): Promise<string | undefined> {
+    const user = this.session?.user;
+    if (this.session) {
+      try {
+        await this.axiosInstance.get('/api/method/logout');
+      } catch (error: any) {
+        // The session may already be gone on the server; forget it locally either way
+      }
+    }
+
+    this.session = undefined;
+    this.cookies.clear();
+    this.restoreApiKey();
+    return user;
+  }
+
+  private restoreApiKey(): void {
+    if (this.apiKeyAuthorization) {
+      this.axiosInstance.defaults.headers.common['Authorization'] = this.apiKeyAuthorization;
+    }
+  }
+
+  // Whether the server no longer recognizes the session cookie
+  private async sessionExpired(): Promise<boolean> {
+    try {
+      const response = await this.axiosInstance.get('/api/method/frappe.auth.get_logged_user');
+      return !response.data?.message || response.data.message === 'Guest';
+    } catch (error: any) {
+      return error instanceof AuthenticationError || error instanceof PermissionError;
+    }
   }
 
-  isAuthenticated(): boolean {
-    return this.authenticated;
+  // Log in again with the stored credentials; concurrent callers share one login
+  private refreshSession(): Promise<void> {
+    if (!this.relogin) {
+      const session = this.session!;
+      this.relogin = this.login(session.username, session.password)
+        .then(() => undefined)
+        .finally(() => {
+          this.relogin = undefined;
+        });
+    }
+    return this.relogin;
   }
 
   // Get a document by doctype and name
@@ -79,12 +426,21 @@ class ERPNextClient {
       const response = await this.axiosInstance.get(`/api/resource/${doctype}/${name}`);
       return response.data.data;
     } catch (error: any) {
-      throw new Error(`Failed to get ${doctype} ${name}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to get ${doctype} ${name}`);
     }
   }
 
-  // Get list of documents for a doctype
-  async getDocList(doctype: string, filters?: Record<string, any>, fields?: string[], limit?: number): Promise<any[]> {
+  // Get list of documents for a doctype (limit 0 returns every matching row)
+  async getDocList(
+    doctype: string,
+    filters?: DocFilters,
+    fields?: string[],
+    limit?: number,
+    start?: number,
+    orderBy?: string,
+    orFilters?: DocFilters,
+    groupBy?: string
+  ): Promise<any[]> {
     try {
       let params: Record<string, any> = {};
       
@@ -93,41 +449,404 @@ class ERPNextClient {
       }
       
       if (filters) {
-        params['filters'] = JSON.stringify(filters);
+        params['filters'] = JSON.stringify(normalizeFilters(filters));
+      }
+
+      if (orFilters) {
+        params['or_filters'] = JSON.stringify(normalizeFilters(orFilters, 'or_filters'));
       }
       
-      if (limit) {
+      if (limit !== undefined) {
         params['limit_page_length'] = limit;
       }
+
+      if (start) {
+        params['limit_start'] = start;
+      }
+
+      if (orderBy) {
+        params['order_by'] = orderBy;
+      }
+
+      if (groupBy) {
+        params['group_by'] = groupBy;
+      }
       
       const response = await this.axiosInstance.get(`/api/resource/${doctype}`, { params });
       return response.data.data;
     } catch (error: any) {
-      throw new Error(`Failed to get ${doctype} list: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to get ${doctype} list`);
+    }
+  }
+
+  // Get one page of documents with a continuation cursor and optional total count
+  async getDocPage<T = any>(
+    doctype: string,
+    filters: DocFilters | undefined,
+    fields: string[] | undefined,
+    page: ListPageOptions,
+    defaultLimit: number = 20,
+    defaultOrderBy?: string,
+    orFilters?: DocFilters
+  ): Promise<PaginatedResult<T>> {
+    const position = resolvePage(page, defaultLimit);
+    const orderBy = position.order_by ?? defaultOrderBy;
+
+    // Fetch one extra row to find out whether another page exists
+    const rows = await this.getDocList(
+      doctype,
+      filters,
+      fields,
+      position.limit === 0 ? 0 : position.limit + 1,
+      position.start,
+      orderBy,
+      orFilters
+    );
+
+    const hasMore = position.limit > 0 && rows.length > position.limit;
+    const data = hasMore ? rows.slice(0, position.limit) : rows;
+
+    const result: PaginatedResult<T> = {
+      data,
+      start: position.start,
+      page_length: position.limit,
+      has_more: hasMore
+    };
+
+    if (hasMore) {
+      result.next_cursor = encodeCursor({
+        start: position.start + position.limit,
+        limit: position.limit,
+        order_by: orderBy
+      });
+    }
+
+    if (page.with_total) {
+      result.total = await this.getDocCount(doctype, filters, orFilters);
+    }
+
+    return result;
+  }
+
+  // Count documents matching filters (frappe.client.get_count has no or_filters, so use reportview for those)
+  async getDocCount(doctype: string, filters?: DocFilters, orFilters?: DocFilters): Promise<number> {
+    try {
+      const method = orFilters ? 'frappe.desk.reportview.get_count' : 'frappe.client.get_count';
+      const response = await this.axiosInstance.get(`/api/method/${method}`, {
+        params: {
+          doctype: doctype,
+          filters: filters ? JSON.stringify(normalizeFilters(filters)) : undefined,
+          or_filters: orFilters ? JSON.stringify(normalizeFilters(orFilters, 'or_filters')) : undefined
+        }
+      });
+      return Number(response.data.message) || 0;
+    } catch (error: any) {
+      throw withContext(error, `Failed to count ${doctype}`);
     }
   }
 
-  // Create a new document
-  async createDocument(doctype: string, doc: Record<string, any>): Promise<any> {
+  // Create a new document, tagging it with an idempotency key when one is given
+  async createDocument(doctype: string, doc: Record<string, any>, idempotencyKey?: string): Promise<any> {
+    let created: any;
     try {
+      const data = idempotencyKey ? await this.stampIdempotencyKey(doctype, doc, idempotencyKey) : doc;
       const response = await this.axiosInstance.post(`/api/resource/${doctype}`, {
-        data: doc
+        data
       });
-      return response.data.data;
+      created = response.data.data;
     } catch (error: any) {
-      throw new Error(`Failed to create ${doctype}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to create ${doctype}`);
+    }
+    recordAuditDocument({ doctype, name: created?.name, action: 'created' });
+
+    if (idempotencyKey && this.idempotencyLedger && created?.name) {
+      await this.idempotencyLedger.record({
+        site: this.site,
+        key: idempotencyKey,
+        doctype,
+        name: created.name,
+        created_at: new Date().toISOString()
+      });
+    }
+
+    return created;
+  }
+
+  // Create a document unless an earlier call with the same idempotency key already did
+  async createDocumentIdempotent(doctype: string, doc: Record<string, any>, idempotencyKey: string): Promise<IdempotentCreateResult> {
+    const existing = await this.findIdempotentDocument(doctype, idempotencyKey);
+    if (existing) {
+      return { doc: existing, replayed: true };
+    }
+    return { doc: await this.createDocument(doctype, doc, idempotencyKey), replayed: false };
+  }
+
+  // Where a DocType keeps idempotency keys: the custom field, or the user_remark of a Journal Entry
+  private async idempotencyStorage(doctype: string): Promise<'field' | 'remark' | undefined> {
+    try {
+      const meta = await this.getDocTypeMeta(doctype);
+      if (meta.fields.some(field => field.fieldname === this.idempotencyField)) {
+        return 'field';
+      }
+    } catch (error) {
+      // Metadata not readable; fall back to the remark marker where possible
+    }
+    return doctype === 'Journal Entry' ? 'remark' : undefined;
+  }
+
+  private async stampIdempotencyKey(doctype: string, doc: Record<string, any>, idempotencyKey: string): Promise<Record<string, any>> {
+    const storage = await this.idempotencyStorage(doctype);
+    if (storage === 'field') {
+      return { ...doc, [this.idempotencyField]: idempotencyKey };
+    }
+    if (storage === 'remark') {
+      return { ...doc, user_remark: withRemarkMarker(doc.user_remark, idempotencyKey) };
+    }
+    if (!this.idempotencyLedger) {
+      throw new Error(
+        `${doctype} has no ${this.idempotencyField} field and ERPNEXT_IDEMPOTENCY_LEDGER is not set, so the idempotency key cannot be stored`
+      );
+    }
+    return doc;
+  }
+
+  // Find the live (not cancelled) document an earlier call with this idempotency key created
+  async findIdempotentDocument(doctype: string, idempotencyKey: string): Promise<any | undefined> {
+    const record = await this.idempotencyLedger?.get(this.site, idempotencyKey);
+    if (record) {
+      if (record.doctype !== doctype) {
+        throw new Error(`Idempotency key ${idempotencyKey} was already used for ${record.doctype} ${record.name}`);
+      }
+      const rows = await this.getDocList(doctype, { name: record.name, docstatus: ['<', 2] }, ['name'], 1);
+      if (rows.length > 0) {
+        return this.getDocument(doctype, record.name);
+      }
+    }
+
+    const storage = await this.idempotencyStorage(doctype);
+    if (storage === 'field') {
+      // Amendments copy the key, so take the earliest live document
+      const rows = await this.getDocList(
+        doctype,
+        { [this.idempotencyField]: idempotencyKey, docstatus: ['<', 2] },
+        ['name'],
+        1,
+        0,
+        'creation asc'
+      );
+      return rows.length > 0 ? this.getDocument(doctype, rows[0].name) : undefined;
+    }
+    if (storage === 'remark') {
+      // LIKE only narrows the search; the remark must hold this exact marker
+      const rows = await this.getDocList(
+        doctype,
+        { user_remark: ['like', remarkLikePattern(idempotencyKey)], docstatus: ['<', 2] },
+        ['name', 'user_remark'],
+        0,
+        0,
+        'creation asc'
+      );
+      const match = rows.find((row: any) => String(row.user_remark || '').includes(remarkMarker(idempotencyKey)));
+      return match ? this.getDocument(doctype, match.name) : undefined;
     }
+    return undefined;
   }
 
-  // Update an existing document
+  // Update an existing document (snapshotting it first when the call is audited)
   async updateDocument(doctype: string, name: string, doc: Record<string, any>): Promise<any> {
     try {
+      const before = isAuditing() ? await this.getDocument(doctype, name) : undefined;
       const response = await this.axiosInstance.put(`/api/resource/${doctype}/${name}`, {
         data: doc
       });
+      recordAuditDocument({ doctype, name, action: 'updated', before, after: response.data.data });
       return response.data.data;
     } catch (error: any) {
-      throw new Error(`Failed to update ${doctype} ${name}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to update ${doctype} ${name}`);
+    }
+  }
+
+  // Check that Link field values point at existing documents
+  private async checkLinks(links: LinkReference[]): Promise<LinkCheck[]> {
+    const lookups = new Map<string, Promise<boolean>>();
+
+    return Promise.all(links.map(async link => {
+      const key = `${link.doctype}\u0000${link.value}`;
+      if (!lookups.has(key)) {
+        lookups.set(key, this.getDocList(link.doctype, [['name', '=', link.value]], ['name'], 1)
+          .then(rows => rows.length > 0));
+      }
+      return { ...link, exists: await lookups.get(key) as boolean };
+    }));
+  }
+
+  // Run local checks for a document payload: unknown fields, empty mandatory fields and broken links
+  private async checkDocumentPayload(doctype: string, data: Record<string, any>, result: DryRunResult): Promise<void> {
+    let meta: DocTypeMeta;
+    try {
+      meta = await this.getDocTypeMeta(doctype);
+    } catch (error: any) {
+      result.warnings.push(`Could not load ${doctype} metadata, field and link checks skipped: ${error?.message || 'Unknown error'}`);
+      return;
+    }
+
+    const known = new Set(meta.fields.map(field => field.fieldname));
+    for (const field of Object.keys(data)) {
+      if (!known.has(field) && !STANDARD_FIELDS.has(field) && field !== 'doctype') {
+        result.warnings.push(`${doctype} has no field '${field}'; ERPNext will ignore it`);
+      }
+    }
+
+    if (result.operation === 'create') {
+      for (const field of findMissingMandatory(meta, data)) {
+        result.warnings.push(`Mandatory field ${field} is empty (ERPNext may set it automatically)`);
+      }
+    }
+
+    result.link_checks = await this.checkLinks(collectLinks(meta, data));
+    for (const check of result.link_checks) {
+      if (!check.exists) {
+        const location = check.table !== undefined ? `${check.table}[${check.row}].${check.field}` : check.field;
+        result.errors.push(`${location}: ${check.doctype} '${check.value}' does not exist`);
+      }
+    }
+  }
+
+  // Preview a document creation without sending it
+  async previewCreateDocument(doctype: string, data: Record<string, any>): Promise<DryRunResult> {
+    const result: DryRunResult = {
+      dry_run: true,
+      operation: 'create',
+      doctype,
+      is_valid: true,
+      errors: [],
+      warnings: [],
+      link_checks: [],
+      request: {
+        method: 'POST',
+        path: `/api/resource/${doctype}`,
+        body: { data }
+      }
+    };
+
+    await this.checkDocumentPayload(doctype, data, result);
+    result.is_valid = result.errors.length === 0;
+    return result;
+  }
+
+  // Preview a document update with a field-level diff against the current document
+  async previewUpdateDocument(doctype: string, name: string, data: Record<string, any>): Promise<DryRunResult> {
+    const current = await this.getDocument(doctype, name);
+
+    const result: DryRunResult = {
+      dry_run: true,
+      operation: 'update',
+      doctype,
+      name,
+      is_valid: true,
+      errors: [],
+      warnings: [],
+      link_checks: [],
+      changes: diffDocument(current, data),
+      request: {
+        method: 'PUT',
+        path: `/api/resource/${doctype}/${name}`,
+        body: { data }
+      }
+    };
+
+    if (current.docstatus === 2) {
+      result.errors.push(`${doctype} ${name} is Cancelled and cannot be updated; amend it instead`);
+    } else if (current.docstatus === 1) {
+      result.warnings.push(`${doctype} ${name} is Submitted; only fields marked "Allow on Submit" can change`);
+    }
+
+    if (result.changes && result.changes.length === 0) {
+      result.warnings.push('The update does not change any field');
+    }
+
+    await this.checkDocumentPayload(doctype, data, result);
+    result.is_valid = result.errors.length === 0;
+    return result;
+  }
+
+  // Fetch a document and make sure it is submittable and in the expected docstatus
+  private async getDocumentForTransition(
+    doctype: string,
+    name: string,
+    expectedDocstatus: number,
+    action: string
+  ): Promise<any> {
+    const meta = await this.getDocTypeMeta(doctype);
+    if (!meta.is_submittable) {
+      throw new Error(`Cannot ${action} ${doctype} ${name}: ${doctype} is not a submittable doctype`);
+    }
+
+    const doc = await this.getDocument(doctype, name);
+    if (doc.docstatus !== expectedDocstatus) {
+      throw new Error(
+        `Cannot ${action} ${doctype} ${name}: document is ${describeDocstatus(doc.docstatus)}, ` +
+        `expected ${describeDocstatus(expectedDocstatus)}`
+      );
+    }
+
+    return doc;
+  }
+
+  // Submit a draft document of any submittable doctype
+  async submitDocument(doctype: string, name: string): Promise<any> {
+    const doc = await this.getDocumentForTransition(doctype, name, 0, 'submit');
+
+    try {
+      const submitted = await this.callMethod('frappe.client.submit', {
+        doc: JSON.stringify(doc)
+      });
+      recordAuditDocument({ doctype, name, action: 'submitted' });
+      return submitted;
+    } catch (error: any) {
+      throw withContext(error, `Failed to submit ${doctype} ${name}`);
+    }
+  }
+
+  // Cancel a submitted document
+  async cancelDocument(doctype: string, name: string): Promise<any> {
+    await this.getDocumentForTransition(doctype, name, 1, 'cancel');
+
+    try {
+      await this.callMethod('frappe.client.cancel', {
+        doctype: doctype,
+        name: name
+      });
+      recordAuditDocument({ doctype, name, action: 'cancelled' });
+      return await this.getDocument(doctype, name);
+    } catch (error: any) {
+      throw withContext(error, `Failed to cancel ${doctype} ${name}`);
+    }
+  }
+
+  // Create a draft amendment of a cancelled document, optionally overriding fields
+  async amendDocument(doctype: string, name: string, changes: Record<string, any> = {}): Promise<any> {
+    const cancelled = await this.getDocumentForTransition(doctype, name, 2, 'amend');
+
+    try {
+      return await this.createDocument(doctype, buildAmendment(cancelled, changes));
+    } catch (error: any) {
+      throw withContext(error, `Failed to amend ${doctype} ${name}`);
+    }
+  }
+
+  // Delete a draft or cancelled document (submitted documents must be cancelled first)
+  async deleteDocument(doctype: string, name: string): Promise<void> {
+    const doc = await this.getDocument(doctype, name);
+    if (doc.docstatus === 1) {
+      throw new Error(`Cannot delete ${doctype} ${name}: document is Submitted, cancel it first`);
+    }
+
+    try {
+      await this.axiosInstance.delete(`/api/resource/${doctype}/${name}`);
+      recordAuditDocument({ doctype, name, action: 'deleted' });
+    } catch (error: any) {
+      throw withContext(error, `Failed to delete ${doctype} ${name}`);
     }
   }
 
@@ -142,7 +861,45 @@ class ERPNextClient {
       });
       return response.data.message;
     } catch (error: any) {
-      throw new Error(`Failed to run report ${reportName}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to run report ${reportName}`);
+    }
+  }
+
+  // DocType a report reads from (its Report record's ref_doctype)
+  async getReportDoctype(reportName: string): Promise<string | undefined> {
+    try {
+      const rows = await this.getDocList('Report', { name: reportName }, ['ref_doctype'], 1);
+      return rows[0]?.ref_doctype || undefined;
+    } catch (error: any) {
+      throw withContext(error, `Failed to get report ${reportName}`);
+    }
+  }
+
+  // Get DocType metadata (fields, child tables, link targets), cached per doctype
+  async getDocTypeMeta(doctype: string, refresh: boolean = false): Promise<DocTypeMeta> {
+    const cached = this.doctypeCache.get(doctype);
+    if (cached && !refresh) {
+      return cached;
+    }
+
+    try {
+      const response = await this.axiosInstance.get('/api/method/frappe.desk.form.load.getdoctype', {
+        params: {
+          doctype: doctype,
+          with_parent: 1
+        }
+      });
+
+      const docs = response.data?.docs;
+      if (!Array.isArray(docs) || docs.length === 0) {
+        throw new Error('No DocType metadata returned');
+      }
+
+      const meta = buildDocTypeMeta(doctype, docs);
+      this.doctypeCache.set(doctype, meta);
+      return meta;
+    } catch (error: any) {
+      throw withContext(error, `Failed to get metadata for ${doctype}`);
     }
   }
 
@@ -200,7 +957,7 @@ class ERPNextClient {
       const response = await this.axiosInstance.post(`/api/method/${methodPath}`, params);
       return response.data.message || response.data;
     } catch (error: any) {
-      throw new Error(`Failed to call method ${methodPath}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to call method ${methodPath}`);
     }
   }
 
@@ -209,12 +966,12 @@ class ERPNextClient {
     try {
       return await this.getDocList('Company', {}, ['name', 'abbr', 'parent_company', 'default_currency']);
     } catch (error: any) {
-      throw new Error(`Failed to get companies: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to get companies`);
     }
   }
 
   // Get account tree children for a company (one level at a time)
-  async getAccountTree(company: string, parent?: string, includeBalances?: boolean): Promise<any> {
+  async getAccountTree(company: string, parent?: string, includeBalances?: boolean, asOfDate?: string): Promise<any> {
     try {
       const params: Record<string, any> = {
         doctype: 'Account',
@@ -230,82 +987,719 @@ class ERPNextClient {
 
       const children = await this.callMethod('frappe.desk.treeview.get_children', params);
 
-      // includeBalances parameter reserved for Phase 2 enhancement
+      if (includeBalances && Array.isArray(children)) {
+        await mapWithConcurrency(children, this.concurrency, async (child: any) => {
+          child.balance = await this.getAccountBalance(child.value, asOfDate);
+        });
+      }
+
       return children;
     } catch (error: any) {
-      throw new Error(`Failed to get account tree for ${company}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to get account tree for ${company}`);
     }
   }
 
-  // Get account balance as of a specific date
-  async getAccountBalance(account: string, date?: string): Promise<any> {
+  // Get the whole chart of accounts for a company as a nested tree, optionally with
+  // balances as of a date rolled up through the group accounts
+  async getFullAccountTree(company: string, includeBalances: boolean = false, asOfDate?: string): Promise<AccountTreeNode[]> {
     try {
-      const balanceDate = date || new Date().toISOString().split('T')[0];
+      const accounts = await this.getDocList(
+        'Account',
+        { company: company },
+        ['name', 'account_name', 'account_number', 'account_type', 'root_type', 'account_currency', 'is_group', 'parent_account'],
+        0,
+        0,
+        'lft asc'
+      );
 
-      const params = {
-        account: account,
-        date: balanceDate
-      };
+      if (!includeBalances) {
+        return buildAccountTree(accounts);
+      }
 
-      return await this.callMethod('erpnext.accounts.utils.get_balance_on', params);
+      const date = asOfDate || new Date().toISOString().split('T')[0];
+      const balances = await this.getGLTotals(company, date);
+
+      // Like get_balance_on, income and expense accounts only count the current fiscal year
+      const fiscalYear = (await this.getFiscalYears(company))
+        .find(year => year.year_start_date <= date && date <= year.year_end_date);
+      if (fiscalYear) {
+        const beforeYear = await this.getGLTotals(company, fiscalYear.year_start_date, true);
+        for (const account of accounts) {
+          const prior = beforeYear.get(account.name);
+          const total = balances.get(account.name);
+          if (prior && total && (account.root_type === 'Income' || account.root_type === 'Expense')) {
+            balances.set(account.name, { debit: total.debit - prior.debit, credit: total.credit - prior.credit });
+          }
+        }
+      }
+
+      return buildAccountTree(accounts, balances);
     } catch (error: any) {
-      throw new Error(`Failed to get balance for ${account}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to get full account tree for ${company}`);
     }
   }
 
-  // Get trial balance for a company and date range (simplified wrapper around run_report)
-  async getTrialBalance(company: string, asOfDate?: string, showZeroBalances: boolean = false): Promise<any> {
-    try {
-      const date = asOfDate || new Date().toISOString().split('T')[0];
+  // Debit and credit totals per account from GL Entries up to a date (before it when exclusive)
+  private async getGLTotals(
+    company: string,
+    date: string,
+    exclusive: boolean = false,
+    extraFilters: Record<string, any> = {}
+  ): Promise<Map<string, { debit: number; credit: number }>> {
+    const rows = await this.getDocList(
+      'GL Entry',
+      { ...extraFilters, company: company, posting_date: [exclusive ? '<' : '<=', date], is_cancelled: 0 },
+      ['account', 'sum(debit) as debit', 'sum(credit) as credit'],
+      0,
+      0,
+      undefined,
+      undefined,
+      'account'
+    );
 
-      // Determine fiscal year from date (simple assumption: fiscal year = calendar year)
-      const fiscalYear = new Date(date).getFullYear().toString();
+    const totals = new Map<string, { debit: number; credit: number }>();
+    for (const row of rows) {
+      totals.set(row.account, { debit: Number(row.debit) || 0, credit: Number(row.credit) || 0 });
+    }
+    return totals;
+  }
 
-      const filters = {
-        company: company,
-        fiscal_year: fiscalYear,
-        from_date: `${fiscalYear}-01-01`,
-        to_date: date,
+  // Debit and credit per account of the given vouchers, posted from fromDate to toDate.
+  // The voucher names go out in chunks so that no request URL grows with the list.
+  private async getVoucherGLTotals(
+    company: string,
+    vouchers: string[],
+    fromDate: string,
+    toDate: string
+  ): Promise<Map<string, { debit: number; credit: number }>> {
+    const chunks: string[][] = [];
+    for (let index = 0; index < vouchers.length; index += VOUCHER_CHUNK_SIZE) {
+      chunks.push(vouchers.slice(index, index + VOUCHER_CHUNK_SIZE));
+    }
+
+    const totals = new Map<string, { debit: number; credit: number }>();
+    const results = await mapWithConcurrency(chunks, this.concurrency, chunk => this.getDocList(
+      'GL Entry',
+      { company: company, voucher_no: ['in', chunk], posting_date: ['between', [fromDate, toDate]], is_cancelled: 0 },
+      ['account', 'sum(debit) as debit', 'sum(credit) as credit'],
+      0,
+      0,
+      undefined,
+      undefined,
+      'account'
+    ));
+    for (const rows of results) {
+      for (const row of rows || []) {
+        const entry = totals.get(row.account) || { debit: 0, credit: 0 };
+        entry.debit += Number(row.debit) || 0;
+        entry.credit += Number(row.credit) || 0;
+        totals.set(row.account, entry);
+      }
+    }
+    return totals;
+  }
+
+  // Get account balance as of a specific date
+  async getAccountBalance(account: string, date?: string): Promise<any> {
+    try {
+      const balanceDate = date || new Date().toISOString().split('T')[0];
+
+      const params = {
+        account: account,
+        date: balanceDate
+      };
+
+      return await this.callMethod('erpnext.accounts.utils.get_balance_on', params);
+    } catch (error: any) {
+      throw withContext(error, `Failed to get balance for ${account}`);
+    }
+  }
+
+  // Fiscal years that apply to a company, oldest first
+  async getFiscalYears(company: string): Promise<FiscalYear[]> {
+    try {
+      // One row per company a year is limited to (or a single row with none)
+      const rows = await this.getDocList(
+        'Fiscal Year',
+        { disabled: 0 },
+        ['name', 'year_start_date', 'year_end_date', 'companies.company as company'],
+        0,
+        0,
+        'year_start_date asc'
+      );
+
+      const years = new Map<string, FiscalYear>();
+      for (const row of rows) {
+        let year = years.get(row.name);
+        if (!year) {
+          year = { name: row.name, year_start_date: row.year_start_date, year_end_date: row.year_end_date, companies: [] };
+          years.set(row.name, year);
+        }
+        if (row.company && !year.companies.includes(row.company)) {
+          year.companies.push(row.company);
+        }
+      }
+
+      return fiscalYearsForCompany([...years.values()], company);
+    } catch (error: any) {
+      throw withContext(error, `Failed to get fiscal years for ${company}`);
+    }
+  }
+
+  // Resolve explicit dates or a period preset against the company's fiscal years
+  async resolveReportingPeriod(company: string, spec: PeriodSpec = {}): Promise<ReportingPeriod> {
+    const fiscalYears = await this.getFiscalYears(company);
+    return resolvePeriod(spec, fiscalYears, new Date().toISOString().split('T')[0]);
+  }
+
+  // Get trial balance for a company over a reporting period (fiscal year to date by default).
+  // Without opening balances only the movements within the period are reported.
+  async getTrialBalance(
+    company: string,
+    periodSpec: PeriodSpec = {},
+    showZeroBalances: boolean = false,
+    includeOpening: boolean = true
+  ): Promise<any> {
+    try {
+      const period = await this.resolveReportingPeriod(company, periodSpec);
+
+      // The Trial Balance report only runs within one fiscal year
+      if (period.from_date < period.fiscal_year_start) {
+        throw new Error(
+          `The period ${period.from_date} to ${period.to_date} spans more than one fiscal year; ` +
+          `the trial balance must start on or after ${period.fiscal_year_start} (start of ${period.fiscal_year})`
+        );
+      }
+
+      const filters = {
+        company: company,
+        fiscal_year: period.fiscal_year,
+        from_date: period.from_date,
+        to_date: period.to_date,
         with_period_closing_entry: 0
       };
 
       const result = await this.runReport('Trial Balance', filters);
+      const openingFields = ['opening_debit', 'opening_credit', 'closing_debit', 'closing_credit'];
+      const amountFields = includeOpening ? ['debit', 'credit', ...openingFields] : ['debit', 'credit'];
+
+      if (Array.isArray(result.result)) {
+        // Filter out zero balances if requested
+        if (!showZeroBalances) {
+          result.result = result.result.filter((row: any) =>
+            amountFields.some(field => (parseFloat(row[field]) || 0) !== 0)
+          );
+        }
 
-      // Filter out zero balances if requested
-      if (!showZeroBalances && result.result) {
-        result.result = result.result.filter((row: any) => {
-          const debit = parseFloat(row.debit) || 0;
-          const credit = parseFloat(row.credit) || 0;
-          return debit !== 0 || credit !== 0;
-        });
+        if (!includeOpening) {
+          result.result = result.result.map((row: any) => {
+            const movement = { ...row };
+            openingFields.forEach(field => delete movement[field]);
+            return movement;
+          });
+          if (Array.isArray(result.columns)) {
+            result.columns = result.columns.filter((column: any) => !openingFields.includes(column?.fieldname));
+          }
+        }
       }
 
-      return result;
+      return { period, include_opening: includeOpening, ...result };
+    } catch (error: any) {
+      throw withContext(error, `Failed to get trial balance for ${company}`);
+    }
+  }
+
+  // Balance sheet, profit and loss or cash flow statement over a reporting period, split
+  // into periods by periodicity and optionally compared with another period or the budget
+  async getFinancialStatement(
+    kind: StatementKind,
+    company: string,
+    periodSpec: PeriodSpec = {},
+    periodicity: Periodicity = 'yearly',
+    compare?: ComparisonBasis,
+    dimensions: { cost_center?: string; project?: string } = {}
+  ): Promise<FinancialStatement> {
+    const reportName = STATEMENT_REPORTS[kind];
+    if (compare === 'budget' && kind !== 'profit_and_loss') {
+      throw new Error('Budget comparison is only available for the profit and loss statement');
+    }
+
+    try {
+      const fiscalYears = await this.getFiscalYears(company);
+      const period = resolvePeriod(periodSpec, fiscalYears, new Date().toISOString().split('T')[0]);
+
+      const run = async (fromDate: string, toDate: string) => {
+        const filters: Record<string, any> = {
+          company: company,
+          filter_based_on: 'Date Range',
+          period_start_date: fromDate,
+          period_end_date: toDate,
+          from_fiscal_year: fiscalYearOf(fromDate, fiscalYears).name,
+          to_fiscal_year: fiscalYearOf(toDate, fiscalYears).name,
+          periodicity: PERIODICITIES[periodicity],
+          accumulated_values: kind === 'balance_sheet' ? 1 : 0,
+          include_default_book_entries: 1
+        };
+        if (dimensions.cost_center) {
+          filters.cost_center = [dimensions.cost_center];
+        }
+        if (dimensions.project) {
+          filters.project = [dimensions.project];
+        }
+        return normalizeStatement(kind, await this.runReport(reportName, filters));
+      };
+
+      const { periods, sections, currency } = await run(period.from_date, period.to_date);
+      const statement: FinancialStatement = {
+        statement: kind,
+        company,
+        currency,
+        period,
+        periodicity,
+        periods,
+        sections
+      };
+
+      if (compare === 'budget') {
+        if (period.from_date < period.fiscal_year_start) {
+          throw new Error('Budget comparison needs a period within one fiscal year');
+        }
+        const { amounts, against } = await this.getBudgetAmounts(company, period, dimensions);
+        applyBudgetComparison(statement, amounts);
+        statement.comparison = {
+          basis: 'budget',
+          from_date: period.from_date,
+          to_date: period.to_date,
+          note: `Annual ${against} budgets for ${period.fiscal_year} pro-rated to ${daysBetween(period.from_date, period.to_date)} of ` +
+            `${daysBetween(period.fiscal_year_start, period.fiscal_year_end)} days (monthly distributions are not applied)`
+        };
+      } else if (compare) {
+        const prior = compare === 'prior_year'
+          ? priorYearPeriod(period.from_date, period.to_date)
+          : priorPeriod(period.from_date, period.to_date);
+
+        // A company in its first fiscal year has nothing to compare with
+        const covered = (date: string) => fiscalYears.some(year => year.year_start_date <= date && date <= year.year_end_date);
+        if (covered(prior.from_date) && covered(prior.to_date)) {
+          applyComparison(statement, statementTotals(await run(prior.from_date, prior.to_date)));
+          statement.comparison = { basis: compare, ...prior };
+        } else {
+          applyComparison(statement, new Map());
+          statement.comparison = {
+            basis: compare,
+            ...prior,
+            note: `No Fiscal Year covers ${prior.from_date} to ${prior.to_date}, so every line is compared with zero`
+          };
+        }
+      }
+
+      return statement;
+    } catch (error: any) {
+      throw withContext(error, `Failed to get ${reportName} for ${company}`);
+    }
+  }
+
+  // Submitted budget amounts per account for the period's fiscal year, pro-rated to the period.
+  // A budget is set against either cost centers or projects, so only one kind is summed:
+  // project budgets when the statement is filtered by project, cost center budgets otherwise.
+  private async getBudgetAmounts(
+    company: string,
+    period: ReportingPeriod,
+    dimensions: { cost_center?: string; project?: string }
+  ): Promise<{ amounts: Map<string, number>; against: 'Project' | 'Cost Center' }> {
+    const against = dimensions.project ? 'Project' : 'Cost Center';
+    const filters: Record<string, any> = { company: company, fiscal_year: period.fiscal_year, docstatus: 1, budget_against: against };
+    if (dimensions.project) {
+      filters.project = dimensions.project;
+    } else if (dimensions.cost_center) {
+      filters.cost_center = dimensions.cost_center;
+    }
+    const rows = await this.getDocList('Budget', filters, ['name'], 0);
+    const budgets = await mapWithConcurrency(rows, this.concurrency, (row: any) => this.getDocument('Budget', row.name));
+
+    const share = daysBetween(period.from_date, period.to_date) / daysBetween(period.fiscal_year_start, period.fiscal_year_end);
+    const amounts = new Map<string, number>();
+    for (const budget of budgets) {
+      for (const line of budget?.accounts || []) {
+        amounts.set(line.account, (amounts.get(line.account) || 0) + (Number(line.budget_amount) || 0) * share);
+      }
+    }
+    return { amounts, against };
+  }
+
+  // GL Entries over a reporting period with opening, running and closing balances,
+  // optionally summarized per voucher or per party
+  async getGeneralLedger(
+    query: GeneralLedgerQuery,
+    periodSpec: PeriodSpec = {},
+    groupBy?: 'voucher' | 'party'
+  ): Promise<GeneralLedger> {
+    try {
+      // A ledger needs no Fiscal Year for explicit dates; it only adds one when there is one
+      const fiscalYears = await this.getFiscalYears(query.company);
+      const range = resolvePeriodRange(periodSpec, fiscalYears, new Date().toISOString().split('T')[0]);
+      const endYear = fiscalYears.find(year => year.year_start_date <= range.to_date && range.to_date <= year.year_end_date);
+      const period: PeriodRange | ReportingPeriod = endYear
+        ? { ...range, fiscal_year: endYear.name, fiscal_year_start: endYear.year_start_date, fiscal_year_end: endYear.year_end_date }
+        : range;
+
+      const filters: Record<string, any> = { company: query.company, is_cancelled: 0 };
+      let accounts: string[] | undefined;
+      if (query.account) {
+        accounts = [query.account];
+        if (query.include_child_accounts) {
+          const account = await this.getDocument('Account', query.account);
+          if (account.is_group) {
+            const descendants = await this.getDocList(
+              'Account',
+              { company: account.company, lft: ['>=', account.lft], rgt: ['<=', account.rgt] },
+              ['name'],
+              0,
+              0,
+              'lft asc'
+            );
+            accounts = descendants.map((row: any) => row.name);
+          }
+        }
+        filters.account = ['in', accounts];
+      }
+      if (query.party_type) {
+        filters.party_type = query.party_type;
+      }
+      if (query.party) {
+        filters.party = query.party;
+      }
+      if (query.voucher_type) {
+        filters.voucher_type = query.voucher_type;
+      }
+      if (query.voucher_no) {
+        filters.voucher_no = query.voucher_no;
+      }
+      if (query.cost_center) {
+        filters.cost_center = query.cost_center;
+      }
+
+      const sums = async (extraFilters: Record<string, any>) => {
+        const rows = await this.getDocList(
+          'GL Entry',
+          { ...filters, ...extraFilters },
+          ['sum(debit) as debit', 'sum(credit) as credit', 'count(name) as entry_count'],
+          1
+        );
+        return {
+          debit: Number(rows[0]?.debit) || 0,
+          credit: Number(rows[0]?.credit) || 0,
+          entry_count: Number(rows[0]?.entry_count) || 0
+        };
+      };
+
+      // Debit and credit before the period for balance sheet accounts (profit = false) or
+      // income and expense accounts (profit = true), totalled per account and classified
+      // here so that no account list goes into the request
+      const profitAccounts = new Set((await this.getDocList(
+        'Account',
+        { company: query.company, root_type: ['in', ['Income', 'Expense']] },
+        ['name'],
+        0
+      )).map((row: any) => row.name));
+      const openingSums = async (profit: boolean, postingDate: any[]) => {
+        const rows = await this.getDocList(
+          'GL Entry',
+          { ...filters, posting_date: postingDate },
+          ['account', 'sum(debit) as debit', 'sum(credit) as credit'],
+          0,
+          0,
+          undefined,
+          undefined,
+          'account'
+        );
+        return rows
+          .filter((row: any) => profitAccounts.has(row.account) === profit)
+          .reduce((total: { debit: number; credit: number }, row: any) => ({
+            debit: total.debit + (Number(row.debit) || 0),
+            credit: total.credit + (Number(row.credit) || 0)
+          }), { debit: 0, credit: 0 });
+      };
+
+      // Like ERPNext's General Ledger report, income and expense accounts open at the start
+      // of the fiscal year, and opening entries within the period count as opening balance
+      const profitStart = fiscalYears.find(year => year.year_start_date <= period.from_date && period.from_date <= year.year_end_date)?.year_start_date;
+
+      const inPeriod = ['between', [period.from_date, period.to_date]];
+      const limit = query.limit || 500;
+      const [balanceOpening, profitOpening, openingEntries, movement, rows] = await Promise.all([
+        openingSums(false, ['<', period.from_date]),
+        profitStart && profitStart >= period.from_date
+          ? Promise.resolve({ debit: 0, credit: 0 })
+          : openingSums(true, profitStart ? ['between', [profitStart, addDays(period.from_date, -1)]] : ['<', period.from_date]),
+        sums({ posting_date: inPeriod, is_opening: 'Yes' }),
+        sums({ posting_date: inPeriod, is_opening: ['!=', 'Yes'] }),
+        this.getDocList(
+          'GL Entry',
+          { ...filters, posting_date: inPeriod, is_opening: ['!=', 'Yes'] },
+          ['name', 'posting_date', 'account', 'debit', 'credit', 'voucher_type', 'voucher_no', 'party_type', 'party', 'against', 'cost_center', 'remarks'],
+          limit,
+          0,
+          'posting_date asc, creation asc'
+        )
+      ]);
+
+      const opening = [balanceOpening, profitOpening, openingEntries].reduce(
+        (total, part) => ({ debit: total.debit + part.debit, credit: total.credit + part.credit }),
+        { debit: 0, credit: 0 }
+      );
+      const openingBalance = Math.round((opening.debit - opening.credit) * 100) / 100;
+      const entries = withRunningBalance(rows, openingBalance);
+
+      const ledger: GeneralLedger = {
+        company: query.company,
+        accounts,
+        period,
+        opening_balance: openingBalance,
+        total_debit: Math.round(movement.debit * 100) / 100,
+        total_credit: Math.round(movement.credit * 100) / 100,
+        closing_balance: Math.round((openingBalance + movement.debit - movement.credit) * 100) / 100,
+        entry_count: movement.entry_count,
+        truncated: movement.entry_count > entries.length,
+        entries
+      };
+
+      // Groups are totalled on the server so they cover every entry, not just those listed
+      if (groupBy) {
+        const groupFields = groupBy === 'voucher' ? ['voucher_type', 'voucher_no'] : ['party_type', 'party'];
+        const groupRows = await this.getDocList(
+          'GL Entry',
+          { ...filters, posting_date: inPeriod, is_opening: ['!=', 'Yes'] },
+          [...groupFields, 'min(posting_date) as posting_date', 'sum(debit) as debit', 'sum(credit) as credit', 'count(name) as entry_count'],
+          0,
+          0,
+          undefined,
+          undefined,
+          groupFields.join(', ')
+        );
+        ledger.group_by = groupBy;
+        ledger.groups = ledgerGroups(groupRows, groupBy, openingBalance);
+      }
+
+      return ledger;
+    } catch (error: any) {
+      throw withContext(error, `Failed to get general ledger for ${query.company}`);
+    }
+  }
+
+  // Consolidated trial balance, balance sheet or profit and loss for a parent company and
+  // all its subsidiaries, in the parent's currency with intercompany amounts eliminated
+  async getConsolidatedReport(
+    parentCompany: string,
+    report: ConsolidatedReportKind = 'trial_balance',
+    periodSpec: PeriodSpec = {},
+    mapBy: AccountMapping = 'account_number',
+    exchangeRates: Record<string, number> = {},
+    intercompanyAccounts: string[] = []
+  ): Promise<ConsolidatedReport> {
+    try {
+      const companies = await this.getDocList('Company', {}, ['name', 'parent_company', 'default_currency'], 0);
+      const group = companyGroup(companies as { name: string; parent_company?: string; default_currency: string }[], parentCompany);
+      const groupNames = new Set(group.map(company => company.name));
+      const currency = group[0].default_currency;
+
+      // Every entity reports over the parent's period
+      const period = await this.resolveReportingPeriod(parentCompany, periodSpec);
+
+      const entities = await mapWithConcurrency(group, this.concurrency, async company => {
+        let rate = 1;
+        let source: ConsolidationEntity['rate_source'] = 'same_currency';
+        if (company.default_currency !== currency) {
+          const given = exchangeRates[company.default_currency];
+          rate = given !== undefined ? given : await this.getClosingRate(company.default_currency, currency, period.to_date);
+          source = given !== undefined ? 'argument' : 'currency_exchange';
+        }
+        return {
+          company: company.name,
+          parent_company: company.parent_company || undefined,
+          currency: company.default_currency,
+          exchange_rate: rate,
+          rate_source: source
+        } as ConsolidationEntity;
+      }) as ConsolidationEntity[];
+
+      // Internal customers and suppliers that stand for another company of the group
+      const [customers, suppliers] = await Promise.all([
+        this.getDocList('Customer', { is_internal_customer: 1 }, ['name', 'represents_company'], 0),
+        this.getDocList('Supplier', { is_internal_supplier: 1 }, ['name', 'represents_company'], 0)
+      ]);
+      const internalParties = [...customers, ...suppliers]
+        .filter((party: any) => groupNames.has(party.represents_company))
+        .map((party: any) => party.name);
+      const taggedAccounts = new Set(intercompanyAccounts);
+
+      // Income and expense count from the start of the period for profit and loss, and
+      // from the start of the fiscal year otherwise (closed to equity before that)
+      const profitStart = report === 'profit_and_loss' ? period.from_date : period.fiscal_year_start;
+      const balanceStart = report === 'profit_and_loss' ? period.from_date : undefined;
+
+      const amounts = new Map<string, EntityAccountAmount[]>();
+      const currentProfit = new Map<string, EntityAccountAmount[]>();
+      await mapWithConcurrency(group, this.concurrency, async company => {
+        const totals = (filters: Record<string, any> = {}) => Promise.all([
+          this.getGLTotals(company.name, period.to_date, false, filters),
+          this.getGLTotals(company.name, profitStart, true, filters)
+        ]);
+        const none = () => Promise.resolve([new Map(), new Map()] as Map<string, { debit: number; credit: number }>[]);
+
+        // Only receivable and payable lines carry the party, so income and expense are
+        // eliminated through the vouchers that post against an internal party; only the
+        // vouchers of the profit window matter
+        const internalVouchers = internalParties.length > 0
+          ? (await this.getDocList(
+            'GL Entry',
+            {
+              company: company.name,
+              party: ['in', internalParties],
+              posting_date: ['between', [profitStart, period.to_date]],
+              is_cancelled: 0
+            },
+            ['voucher_no'],
+            0,
+            0,
+            undefined,
+            undefined,
+            'voucher_no'
+          )).map((row: any) => row.voucher_no)
+          : [];
+
+        const [accounts, [closing, beforeProfit], [internalClosing], voucherProfit] = await Promise.all([
+          this.getDocList('Account', { company: company.name, is_group: 0 }, ['name', 'account_name', 'account_number', 'root_type'], 0),
+          totals(),
+          internalParties.length > 0 ? totals({ party: ['in', internalParties] }) : none(),
+          this.getVoucherGLTotals(company.name, internalVouchers, profitStart, period.to_date)
+        ]);
+
+        const net = (totalsByAccount: Map<string, { debit: number; credit: number }>, account: string) => {
+          const entry = totalsByAccount.get(account);
+          return entry ? entry.debit - entry.credit : 0;
+        };
+
+        const entityAmounts: EntityAccountAmount[] = [];
+        const profitAmounts: EntityAccountAmount[] = [];
+        for (const account of accounts) {
+          const isProfit = account.root_type === 'Income' || account.root_type === 'Expense';
+          if (!isProfit && balanceStart) {
+            continue;
+          }
+
+          let amount = net(closing, account.name);
+          let internal = net(internalClosing, account.name);
+          if (isProfit) {
+            amount -= net(beforeProfit, account.name);
+            internal = net(voucherProfit, account.name);
+          }
+          if (amount === 0 && internal === 0) {
+            continue;
+          }
+
+          const tagged = taggedAccounts.has(account.name) || taggedAccounts.has(account.account_name) ||
+            (account.account_number && taggedAccounts.has(account.account_number));
+          const entry: EntityAccountAmount = {
+            account: account.name,
+            account_number: account.account_number || undefined,
+            account_name: account.account_name,
+            root_type: account.root_type,
+            amount,
+            intercompany: tagged ? amount : internal
+          };
+          (isProfit && report === 'balance_sheet' ? profitAmounts : entityAmounts).push(entry);
+        }
+        amounts.set(company.name, entityAmounts);
+        currentProfit.set(company.name, profitAmounts);
+      });
+
+      const sections = consolidate(report, entities, amounts, mapBy, report === 'balance_sheet' ? currentProfit : undefined);
+
+      // Debit-positive intercompany amounts of the whole group should offset to zero
+      let difference = 0;
+      for (const entity of entities) {
+        for (const entry of [...(amounts.get(entity.company) || []), ...(currentProfit.get(entity.company) || [])]) {
+          difference += entry.intercompany * entity.exchange_rate;
+        }
+      }
+
+      const notes = [
+        'Every entity is translated at a single closing rate; no separate average rate or translation reserve is computed'
+      ];
+      if (internalParties.length === 0 && taggedAccounts.size === 0) {
+        notes.push('No internal customers or suppliers of the group and no intercompany_accounts, so nothing was eliminated');
+      }
+      if (report !== 'profit_and_loss' && Math.abs(difference) >= 0.01) {
+        notes.push('Intercompany balances do not fully offset; the difference is removed from the consolidated figures along with them');
+      }
+
+      return {
+        report,
+        parent_company: parentCompany,
+        presentation_currency: currency,
+        period,
+        map_by: mapBy,
+        sign_convention: SIGN_CONVENTIONS[report],
+        entities,
+        sections,
+        intercompany_difference: Math.round(difference * 100) / 100,
+        notes
+      };
     } catch (error: any) {
-      throw new Error(`Failed to get trial balance for ${company}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to get consolidated report for ${parentCompany}`);
+    }
+  }
+
+  // Latest Currency Exchange rate on or before a date, trying the inverse pair when needed
+  private async getClosingRate(fromCurrency: string, toCurrency: string, date: string): Promise<number> {
+    const latest = async (from: string, to: string) => {
+      const rows = await this.getDocList(
+        'Currency Exchange',
+        { from_currency: from, to_currency: to, date: ['<=', date] },
+        ['exchange_rate'],
+        1,
+        0,
+        'date desc'
+      );
+      return Number(rows[0]?.exchange_rate) || undefined;
+    };
+
+    const direct = await latest(fromCurrency, toCurrency);
+    if (direct) {
+      return direct;
+    }
+    const inverse = await latest(toCurrency, fromCurrency);
+    if (inverse) {
+      return 1 / inverse;
     }
+    throw new Error(`No exchange rate from ${fromCurrency} to ${toCurrency} on or before ${date}; pass it in exchange_rates`);
   }
 
   // Search accounts by number or name (fuzzy search)
   async searchAccounts(company: string, query: string, limit: number = 10): Promise<any[]> {
     try {
-      // Search in both account_name and account_number fields using 'like' operator
-      const filters = {
-        company: company,
-        // Use OR logic: match either name or number
-        name: ['like', `%${query}%`]
-      };
+      const filters = { company: company };
+
+      // Use OR logic: match either account number or account name
+      const orFilters: DocFilters = [
+        ['account_number', 'like', `%${query}%`],
+        ['account_name', 'like', `%${query}%`]
+      ];
 
       const accounts = await this.getDocList(
         'Account',
         filters,
         ['name', 'account_name', 'account_number', 'account_type', 'is_group', 'parent_account'],
-        limit
+        limit,
+        0,
+        'account_number asc',
+        orFilters
       );
 
       return accounts;
     } catch (error: any) {
-      throw new Error(`Failed to search accounts for ${company}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to search accounts for ${company}`);
     }
   }
 
@@ -314,8 +1708,9 @@ class ERPNextClient {
     company: string,
     accountType?: string,
     rootType?: string,
-    includeGroups: boolean = false
-  ): Promise<any[]> {
+    includeGroups: boolean = false,
+    page: ListPageOptions = {}
+  ): Promise<PaginatedResult<any>> {
     try {
       const filters: Record<string, any> = { company: company };
 
@@ -331,21 +1726,21 @@ class ERPNextClient {
         filters.is_group = 0;
       }
 
-      const accounts = await this.getDocList(
+      return await this.getDocPage(
         'Account',
         filters,
         ['name', 'account_name', 'account_number', 'account_type', 'root_type', 'is_group'],
-        0  // No limit, get all matching accounts
+        page,
+        0,  // No limit by default, get all matching accounts
+        'lft asc'
       );
-
-      return accounts;
     } catch (error: any) {
-      throw new Error(`Failed to list accounts by type for ${company}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to list accounts by type for ${company}`);
     }
   }
 
   // Get all bank accounts for a company
-  async getBankAccounts(company?: string): Promise<BankAccount[]> {
+  async getBankAccounts(company?: string, page: ListPageOptions = {}): Promise<PaginatedResult<BankAccount>> {
     try {
       const filters: Record<string, any> = {};
 
@@ -353,16 +1748,16 @@ class ERPNextClient {
         filters.company = company;
       }
 
-      const accounts = await this.getDocList(
+      return await this.getDocPage<BankAccount>(
         'Bank Account',
         filters,
         ['name', 'account_name', 'account', 'bank', 'is_company_account', 'company', 'bank_account_no', 'iban', 'is_default', 'disabled'],
-        0
+        page,
+        0,
+        'name asc'
       );
-
-      return accounts as BankAccount[];
     } catch (error: any) {
-      throw new Error(`Failed to get bank accounts: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to get bank accounts`);
     }
   }
 
@@ -374,8 +1769,9 @@ class ERPNextClient {
     fromDate?: string,
     toDate?: string,
     minAmount?: number,
-    maxAmount?: number
-  ): Promise<BankTransaction[]> {
+    maxAmount?: number,
+    page: ListPageOptions = {}
+  ): Promise<PaginatedResult<BankTransaction>> {
     try {
       const filters: Record<string, any> = {};
 
@@ -403,101 +1799,544 @@ class ERPNextClient {
         }
       }
 
-      const transactions = await this.getDocList(
+      // A transaction's amount is its deposit or its withdrawal, the other being zero: it is
+      // at most maxAmount when both are, and at least minAmount when either is
+      if (maxAmount !== undefined) {
+        filters.deposit = ['<=', maxAmount];
+        filters.withdrawal = ['<=', maxAmount];
+      }
+      const orFilters: DocFilters | undefined = minAmount !== undefined && minAmount > 0
+        ? [['deposit', '>=', minAmount], ['withdrawal', '>=', minAmount]]
+        : undefined;
+
+      const transactions = await this.getDocPage<BankTransaction>(
         'Bank Transaction',
         filters,
-        ['name', 'date', 'deposit', 'withdrawal', 'description', 'reference_number', 'transaction_id', 'bank_account', 'company', 'currency', 'status'],
+        ['name', 'date', 'deposit', 'withdrawal', 'description', 'reference_number', 'transaction_id', 'bank_account', 'company', 'currency', 'status', 'unallocated_amount', 'bank_party_name'],
+        page,
+        0,
+        'date asc, name asc',
+        orFilters
+      );
+
+      return transactions;
+    } catch (error: any) {
+      throw withContext(error, `Failed to search bank transactions`);
+    }
+  }
+
+  // Get submitted, uncleared vouchers that touch a bank GL account, as reconciliation candidates
+  async getReconciliationCandidates(
+    glAccount: string,
+    company: string,
+    fromDate: string,
+    toDate: string,
+    invoiceFromDate: string
+  ): Promise<ReconciliationCandidate[]> {
+    try {
+      const candidates: ReconciliationCandidate[] = [];
+
+      const paymentEntries = await this.getDocList(
+        'Payment Entry',
+        [
+          ['docstatus', '=', 1],
+          ['company', '=', company],
+          ['clearance_date', 'is', 'not set'],
+          ['posting_date', 'between', [fromDate, toDate]]
+        ],
+        ['name', 'posting_date', 'payment_type', 'paid_from', 'paid_to', 'paid_amount', 'received_amount', 'reference_no', 'party_name', 'remarks'],
+        0,
+        0,
+        undefined,
+        [['paid_from', '=', glAccount], ['paid_to', '=', glAccount]]
+      );
+
+      for (const entry of paymentEntries) {
+        const isDeposit = entry.paid_to === glAccount;
+        candidates.push({
+          voucher_type: 'Payment Entry',
+          voucher_name: entry.name,
+          posting_date: entry.posting_date,
+          amount: Number(isDeposit ? entry.received_amount : entry.paid_amount) || 0,
+          direction: isDeposit ? 'deposit' : 'withdrawal',
+          party: entry.party_name || undefined,
+          reference: entry.reference_no || undefined,
+          remarks: entry.remarks || undefined
+        });
+      }
+
+      // One row per Journal Entry Account line posted to the bank account
+      const journalLines = await this.getDocList(
+        'Journal Entry',
+        [
+          ['docstatus', '=', 1],
+          ['company', '=', company],
+          ['clearance_date', 'is', 'not set'],
+          ['posting_date', 'between', [fromDate, toDate]],
+          ['Journal Entry Account', 'account', '=', glAccount]
+        ],
+        [
+          'name', 'posting_date', 'cheque_no', 'user_remark',
+          '`tabJournal Entry Account`.debit_in_account_currency as debit',
+          '`tabJournal Entry Account`.credit_in_account_currency as credit',
+          '`tabJournal Entry Account`.party as party'
+        ],
+        0
+      );
+
+      for (const line of journalLines) {
+        const debit = Number(line.debit) || 0;
+        const credit = Number(line.credit) || 0;
+        candidates.push({
+          voucher_type: 'Journal Entry',
+          voucher_name: line.name,
+          posting_date: line.posting_date,
+          amount: debit > 0 ? debit : credit,
+          direction: debit > 0 ? 'deposit' : 'withdrawal',
+          party: line.party || undefined,
+          reference: line.cheque_no || undefined,
+          remarks: line.user_remark || undefined
+        });
+      }
+
+      const invoiceFilters = [
+        ['docstatus', '=', 1],
+        ['company', '=', company],
+        ['outstanding_amount', '>', 0],
+        ['posting_date', 'between', [invoiceFromDate, toDate]]
+      ];
+
+      const salesInvoices = await this.getDocList(
+        'Sales Invoice',
+        invoiceFilters,
+        ['name', 'posting_date', 'outstanding_amount', 'customer_name', 'po_no', 'remarks'],
         0
       );
 
-      // Filter by amount if specified (client-side filtering since ERPNext doesn't support range queries easily)
-      let filtered = transactions as BankTransaction[];
+      for (const invoice of salesInvoices) {
+        candidates.push({
+          voucher_type: 'Sales Invoice',
+          voucher_name: invoice.name,
+          posting_date: invoice.posting_date,
+          amount: Number(invoice.outstanding_amount) || 0,
+          direction: 'deposit',
+          party: invoice.customer_name || undefined,
+          reference: invoice.po_no || undefined,
+          remarks: invoice.remarks || undefined
+        });
+      }
+
+      const purchaseInvoices = await this.getDocList(
+        'Purchase Invoice',
+        invoiceFilters,
+        ['name', 'posting_date', 'outstanding_amount', 'supplier_name', 'bill_no', 'remarks'],
+        0
+      );
 
-      if (minAmount !== undefined || maxAmount !== undefined) {
-        filtered = filtered.filter(t => {
-          const amount = t.deposit || t.withdrawal || 0;
-          if (minAmount !== undefined && amount < minAmount) return false;
-          if (maxAmount !== undefined && amount > maxAmount) return false;
-          return true;
+      for (const invoice of purchaseInvoices) {
+        candidates.push({
+          voucher_type: 'Purchase Invoice',
+          voucher_name: invoice.name,
+          posting_date: invoice.posting_date,
+          amount: Number(invoice.outstanding_amount) || 0,
+          direction: 'withdrawal',
+          party: invoice.supplier_name || undefined,
+          reference: invoice.bill_no || undefined,
+          remarks: invoice.remarks || undefined
         });
       }
 
-      return filtered;
+      return candidates;
     } catch (error: any) {
-      throw new Error(`Failed to search bank transactions: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to get reconciliation candidates for ${glAccount}`);
     }
   }
 
-  // Batch import bank transactions using ERPNext's create_bank_entries API
-  async batchImportBankTransactions(
-    columns: string[],
-    data: any[][],
-    bankAccount: string
-  ): Promise<any> {
+  // Score candidate vouchers for unreconciled bank transactions and return ranked matches
+  async suggestReconciliationMatches(
+    bankAccount: string,
+    transactionNames?: string[],
+    fromDate?: string,
+    toDate?: string,
+    options: Partial<MatchingOptions> = {}
+  ): Promise<ReconciliationSuggestion[]> {
     try {
-      return await this.callMethod(
-        'erpnext.accounts.doctype.bank_transaction.bank_transaction_upload.create_bank_entries',
-        {
-          columns: JSON.stringify(columns),
-          data: JSON.stringify(data),
-          bank_account: bankAccount
-        }
+      const matching: MatchingOptions = { ...DEFAULT_MATCHING_OPTIONS, ...options };
+
+      const account = await this.getDocument('Bank Account', bankAccount);
+      if (!account.account) {
+        throw new Error(`Bank Account ${bankAccount} is not linked to a GL account`);
+      }
+
+      let transactions = (await this.searchBankTransactions(
+        bankAccount,
+        undefined,
+        'Unreconciled',
+        fromDate,
+        toDate
+      )).data;
+
+      if (transactionNames && transactionNames.length > 0) {
+        const wanted = new Set(transactionNames);
+        transactions = transactions.filter(t => t.name && wanted.has(t.name));
+      }
+
+      if (transactions.length === 0) {
+        return [];
+      }
+
+      const dates = transactions.map(t => t.date).sort();
+      const windowStart = addDays(dates[0], -matching.date_window_days);
+      const windowEnd = addDays(dates[dates.length - 1], matching.date_window_days);
+      const invoiceStart = addDays(dates[0], -matching.invoice_lookback_days);
+
+      const candidates = await this.getReconciliationCandidates(
+        account.account,
+        account.company,
+        windowStart,
+        windowEnd,
+        invoiceStart
       );
+
+      return transactions.map(transaction => rankCandidates(transaction, candidates, matching));
     } catch (error: any) {
-      throw new Error(`Failed to batch import bank transactions: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to suggest reconciliation matches for ${bankAccount}`);
     }
   }
 
-  // Validate journal entry (check that debits equal credits)
-  async validateJournalEntry(journalEntry: JournalEntry): Promise<JournalEntryValidation> {
-    const validation: JournalEntryValidation = {
-      is_valid: true,
-      total_debit: 0,
-      total_credit: 0,
-      difference: 0,
-      errors: [],
-      warnings: []
+  // Summarize a bank transaction's reconciliation state
+  private async getBankReconciliationState(bankTransaction: string): Promise<BankReconciliationResult> {
+    const doc = await this.getDocument('Bank Transaction', bankTransaction);
+
+    return {
+      bank_transaction: doc.name,
+      status: doc.status,
+      allocated_amount: Number(doc.allocated_amount) || 0,
+      unallocated_amount: Number(doc.unallocated_amount) || 0,
+      payment_entries: (doc.payment_entries || []).map((row: any) => ({
+        payment_document: row.payment_document,
+        payment_entry: row.payment_entry,
+        allocated_amount: Number(row.allocated_amount) || 0
+      }))
     };
+  }
 
-    // Check required fields
-    if (!journalEntry.posting_date) {
-      validation.errors.push('posting_date is required');
-      validation.is_valid = false;
-    }
+  // Link a bank transaction to one or more vouchers via the Bank Reconciliation Tool API
+  async reconcileBankTransaction(
+    bankTransaction: string,
+    allocations: BankReconciliationAllocation[]
+  ): Promise<BankReconciliationResult> {
+    const doc = await this.getDocument('Bank Transaction', bankTransaction);
 
-    if (!journalEntry.company) {
-      validation.errors.push('company is required');
-      validation.is_valid = false;
+    if (doc.docstatus !== 1) {
+      throw new Error(`Cannot reconcile Bank Transaction ${bankTransaction}: document is ${describeDocstatus(doc.docstatus)}, expected Submitted`);
     }
 
-    if (!journalEntry.accounts || journalEntry.accounts.length === 0) {
-      validation.errors.push('At least one account entry is required');
-      validation.is_valid = false;
-      return validation;
+    const unallocated = Number(doc.unallocated_amount) || 0;
+    if (unallocated <= 0) {
+      throw new Error(`Bank Transaction ${bankTransaction} is already fully allocated`);
     }
 
-    if (journalEntry.accounts.length < 2) {
-      validation.errors.push('Journal entry must have at least 2 account entries');
-      validation.is_valid = false;
+    if (allocations.length > 1 && allocations.some(allocation => allocation.amount === undefined)) {
+      throw new Error('amount is required for each voucher when allocating to more than one voucher');
     }
 
-    // Calculate totals
-    for (const account of journalEntry.accounts) {
-      if (!account.account) {
-        validation.errors.push('Account name is required for all entries');
-        validation.is_valid = false;
-        continue;
+    const vouchers = allocations.map(allocation => {
+      const amount = allocation.amount ?? unallocated;
+      if (!(amount > 0)) {
+        throw new Error(`Allocation to ${allocation.voucher_type} ${allocation.voucher_name} must be a positive amount`);
       }
+      return {
+        payment_doctype: allocation.voucher_type,
+        payment_name: allocation.voucher_name,
+        amount: amount
+      };
+    });
 
-      const debit = account.debit_in_account_currency || 0;
-      const credit = account.credit_in_account_currency || 0;
+    const total = Math.round(vouchers.reduce((sum, voucher) => sum + voucher.amount, 0) * 100) / 100;
+    if (total - unallocated > 0.005) {
+      throw new Error(
+        `Cannot allocate ${total.toFixed(2)} to Bank Transaction ${bankTransaction}: only ${unallocated.toFixed(2)} is unallocated`
+      );
+    }
 
-      validation.total_debit += debit;
-      validation.total_credit += credit;
+    try {
+      await this.callMethod(
+        'erpnext.accounts.doctype.bank_reconciliation_tool.bank_reconciliation_tool.reconcile_vouchers',
+        {
+          bank_transaction_name: bankTransaction,
+          vouchers: JSON.stringify(vouchers)
+        }
+      );
+      recordAuditDocument({ doctype: 'Bank Transaction', name: bankTransaction, action: 'reconciled' });
+      return await this.getBankReconciliationState(bankTransaction);
+    } catch (error: any) {
+      throw withContext(error, `Failed to reconcile Bank Transaction ${bankTransaction}`);
+    }
+  }
 
-      // Check that each line has either debit or credit, not both
-      if (debit > 0 && credit > 0) {
-        validation.warnings.push(`Account ${account.account} has both debit and credit - this is unusual`);
+  // Remove voucher links from a bank transaction (all of them when no vouchers are given)
+  async unreconcileBankTransaction(
+    bankTransaction: string,
+    vouchers: BankReconciliationAllocation[] = []
+  ): Promise<BankReconciliationResult> {
+    const state = await this.getBankReconciliationState(bankTransaction);
+
+    for (const voucher of vouchers) {
+      const linked = state.payment_entries.some(row =>
+        row.payment_document === voucher.voucher_type && row.payment_entry === voucher.voucher_name
+      );
+      if (!linked) {
+        throw new Error(`${voucher.voucher_type} ${voucher.voucher_name} is not linked to Bank Transaction ${bankTransaction}`);
+      }
+    }
+
+    try {
+      if (vouchers.length === 0) {
+        await this.callMethod('run_doc_method', {
+          dt: 'Bank Transaction',
+          dn: bankTransaction,
+          method: 'remove_payment_entries'
+        });
+      } else {
+        for (const voucher of vouchers) {
+          await this.callMethod('erpnext.accounts.doctype.bank_transaction.bank_transaction.unclear_reference_payment', {
+            doctype: voucher.voucher_type,
+            docname: voucher.voucher_name,
+            bt_name: bankTransaction
+          });
+        }
+      }
+      recordAuditDocument({ doctype: 'Bank Transaction', name: bankTransaction, action: 'unreconciled' });
+      return await this.getBankReconciliationState(bankTransaction);
+    } catch (error: any) {
+      throw withContext(error, `Failed to unreconcile Bank Transaction ${bankTransaction}`);
+    }
+  }
+
+  // Batch import bank transactions using ERPNext's create_bank_entries API
+  async batchImportBankTransactions(
+    columns: string[],
+    data: any[][],
+    bankAccount: string
+  ): Promise<any> {
+    try {
+      // create_bank_entries does not return the names it creates, so audited imports
+      // look up the account's Bank Transactions created after the newest one before it
+      const latestBefore = isAuditing()
+        ? (await this.getDocList('Bank Transaction', { bank_account: bankAccount }, ['creation'], 1, 0, 'creation desc'))[0]?.creation
+        : undefined;
+
+      const result = await this.callMethod(
+        'erpnext.accounts.doctype.bank_transaction.bank_transaction_upload.create_bank_entries',
+        {
+          columns: JSON.stringify(columns),
+          data: JSON.stringify(data),
+          bank_account: bankAccount
+        }
+      );
+
+      if (isAuditing()) {
+        const created = await this.getDocList(
+          'Bank Transaction',
+          latestBefore ? { bank_account: bankAccount, creation: ['>', latestBefore] } : { bank_account: bankAccount },
+          ['name'],
+          0,
+          0,
+          'creation asc'
+        );
+        created.forEach((row: any) => recordAuditDocument({ doctype: 'Bank Transaction', name: row.name, action: 'created' }));
+      }
+
+      return result;
+    } catch (error: any) {
+      throw withContext(error, `Failed to batch import bank transactions`);
+    }
+  }
+
+  // Compare incoming transactions with existing Bank Transactions of the same bank account
+  async checkBankTransactionDuplicates(
+    bankAccount: string,
+    transactions: BankTransaction[],
+    likelyWindowDays: number = 2
+  ): Promise<DuplicateCheckResult> {
+    if (transactions.length === 0) {
+      return classifyDuplicates([], []);
+    }
+
+    try {
+      const dates = transactions.map(t => t.date).sort();
+      const existing = await this.getDocList(
+        'Bank Transaction',
+        [
+          ['bank_account', '=', bankAccount],
+          ['docstatus', '<', 2],
+          ['date', 'between', [addDays(dates[0], -likelyWindowDays), addDays(dates[dates.length - 1], likelyWindowDays)]]
+        ],
+        ['name', 'date', 'deposit', 'withdrawal', 'description', 'reference_number', 'transaction_id', 'bank_account'],
+        0
+      );
+
+      return classifyDuplicates(transactions, existing as BankTransaction[], likelyWindowDays);
+    } catch (error: any) {
+      throw withContext(error, `Failed to check for duplicate bank transactions`);
+    }
+  }
+
+  // Drop raw import rows that already exist as Bank Transactions. Returns the rows unchanged
+  // (without a duplicate check) when the date/amount/description columns cannot be identified.
+  async filterDuplicateImportRows(
+    columns: string[],
+    data: any[][],
+    bankAccount: string,
+    includeLikelyDuplicates: boolean = false
+  ): Promise<{ data: any[][]; duplicate_check?: DuplicateCheckResult }> {
+    const mapping = guessImportMapping(columns);
+    if (!mapping) {
+      return { data };
+    }
+
+    // Parse row by row so results keep their position in data; unparseable rows are left to ERPNext
+    const parsed = data.map(row => parseMappedRows([row], { bank_account: bankAccount, mapping }).transactions[0]);
+    const parsedIndexes = parsed.map((transaction, index) => transaction ? index : -1).filter(index => index !== -1);
+
+    const check = await this.checkBankTransactionDuplicates(bankAccount, parsedIndexes.map(index => parsed[index]));
+    check.rows.forEach(row => {
+      row.row_index = parsedIndexes[row.row_index];
+    });
+
+    const skipped = new Set(
+      check.rows
+        .filter(row => row.status === 'duplicate' || (row.status === 'likely_duplicate' && !includeLikelyDuplicates))
+        .map(row => row.row_index)
+    );
+
+    return {
+      data: data.filter((_, index) => !skipped.has(index)),
+      duplicate_check: check
+    };
+  }
+
+  // Apply categorization rules to unreconciled bank transactions and build draft journal entries
+  async categorizeBankTransactions(
+    rules: CompiledRule[],
+    bankAccount?: string,
+    company?: string,
+    fromDate?: string,
+    toDate?: string
+  ): Promise<CategorizationResult> {
+    try {
+      const transactions = (await this.searchBankTransactions(
+        bankAccount,
+        company,
+        'Unreconciled',
+        fromDate,
+        toDate
+      )).data;
+
+      const postings = new Map<string, BankAccountPosting>();
+      for (const name of new Set(transactions.map(t => t.bank_account))) {
+        const account = await this.getDocument('Bank Account', name);
+        if (account.account) {
+          postings.set(name, { account: account.account, company: account.company });
+        }
+      }
+
+      return categorizeTransactions(transactions, rules, postings);
+    } catch (error: any) {
+      throw withContext(error, `Failed to categorize bank transactions`);
+    }
+  }
+
+  // Create and submit Bank Transaction documents from normalized statement rows
+  async importBankTransactions(transactions: BankTransaction[]): Promise<BankImportResult> {
+    const result: BankImportResult = {
+      success_count: 0,
+      error_count: 0,
+      created_transactions: [],
+      errors: []
+    };
+
+    const outcomes = await mapWithConcurrency(transactions, this.concurrency, async transaction => {
+      try {
+        const created = await this.createDocument('Bank Transaction', {
+          ...transaction,
+          docstatus: 1
+        });
+        return { name: created.name as string };
+      } catch (error: any) {
+        return { error: error?.message || 'Unknown error' };
+      }
+    });
+
+    // Collect in row order regardless of completion order
+    outcomes.forEach((outcome, index) => {
+      if (outcome?.name) {
+        result.success_count++;
+        result.created_transactions.push(outcome.name);
+      } else {
+        result.error_count++;
+        result.errors.push({
+          row_index: index,
+          error: outcome?.error || 'Unknown error',
+          data: transactions[index]
+        });
+      }
+    });
+
+    return result;
+  }
+
+  // Validate journal entry (check that debits equal credits)
+  async validateJournalEntry(journalEntry: JournalEntry): Promise<JournalEntryValidation> {
+    const validation: JournalEntryValidation = {
+      is_valid: true,
+      total_debit: 0,
+      total_credit: 0,
+      difference: 0,
+      errors: [],
+      warnings: []
+    };
+
+    // Check required fields
+    if (!journalEntry.posting_date) {
+      validation.errors.push('posting_date is required');
+      validation.is_valid = false;
+    }
+
+    if (!journalEntry.company) {
+      validation.errors.push('company is required');
+      validation.is_valid = false;
+    }
+
+    if (!journalEntry.accounts || journalEntry.accounts.length === 0) {
+      validation.errors.push('At least one account entry is required');
+      validation.is_valid = false;
+      return validation;
+    }
+
+    if (journalEntry.accounts.length < 2) {
+      validation.errors.push('Journal entry must have at least 2 account entries');
+      validation.is_valid = false;
+    }
+
+    // Calculate totals
+    for (const account of journalEntry.accounts) {
+      if (!account.account) {
+        validation.errors.push('Account name is required for all entries');
+        validation.is_valid = false;
+        continue;
+      }
+
+      const debit = account.debit_in_account_currency || 0;
+      const credit = account.credit_in_account_currency || 0;
+
+      validation.total_debit += debit;
+      validation.total_credit += credit;
+
+      // Check that each line has either debit or credit, not both
+      if (debit > 0 && credit > 0) {
+        validation.warnings.push(`Account ${account.account} has both debit and credit - this is unusual`);
       }
 
       if (debit === 0 && credit === 0) {
@@ -521,7 +2360,7 @@ class ERPNextClient {
   }
 
   // Create journal entry with validation
-  async createJournalEntry(journalEntry: JournalEntry, skipValidation: boolean = false): Promise<any> {
+  async createJournalEntry(journalEntry: JournalEntry, skipValidation: boolean = false, idempotencyKey?: string): Promise<any> {
     try {
       // Validate first unless skipped
       if (!skipValidation) {
@@ -532,34 +2371,48 @@ class ERPNextClient {
       }
 
       // Create the journal entry
-      const result = await this.createDocument('Journal Entry', journalEntry);
+      const result = await this.createDocument('Journal Entry', journalEntry, idempotencyKey);
 
       return result;
     } catch (error: any) {
-      throw new Error(`Failed to create journal entry: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to create journal entry`);
     }
   }
 
+  // Preview a journal entry creation: balance validation plus document and link checks
+  async previewJournalEntry(journalEntry: JournalEntry): Promise<DryRunResult & { validation: JournalEntryValidation }> {
+    const validation = await this.validateJournalEntry(journalEntry);
+    const preview = await this.previewCreateDocument('Journal Entry', journalEntry);
+
+    preview.errors.unshift(...validation.errors);
+    preview.warnings.unshift(...validation.warnings);
+    preview.is_valid = preview.errors.length === 0;
+
+    return { ...preview, validation };
+  }
+
   // Submit (post) a journal entry
   async submitJournalEntry(journalEntryName: string): Promise<any> {
     try {
-      return await this.callMethod('frappe.client.submit', {
-        doc: JSON.stringify({
-          doctype: 'Journal Entry',
-          name: journalEntryName
-        })
-      });
+      return await this.submitDocument('Journal Entry', journalEntryName);
     } catch (error: any) {
-      throw new Error(`Failed to submit journal entry ${journalEntryName}: ${error?.message || 'Unknown error'}`);
+      throw withContext(error, `Failed to submit journal entry ${journalEntryName}`);
     }
   }
 
-  // Batch create journal entries with validation and error handling
+  // Batch create journal entries with validation and error handling. Entries run
+  // concurrently (see ERPNEXT_CONCURRENCY), or one at a time with stop_on_error so
+  // nothing after a failure is posted; results are reported in input order.
   async batchCreateJournalEntries(
     entries: JournalEntry[],
     autoSubmit: boolean = false,
-    stopOnError: boolean = false
+    stopOnError: boolean = false,
+    atomic: boolean = false
   ): Promise<BatchJournalEntryResult> {
+    if (atomic) {
+      return this.batchCreateJournalEntriesAtomic(entries, autoSubmit);
+    }
+
     const result: BatchJournalEntryResult = {
       success_count: 0,
       error_count: 0,
@@ -567,114 +2420,366 @@ class ERPNextClient {
       errors: []
     };
 
-    for (let index = 0; index < entries.length; index++) {
-      const entry = entries[index];
+    // With stop_on_error, entries after the first failure are skipped
+    let stopped = false;
+    const outcomes = await mapWithConcurrency(entries, stopOnError ? 1 : this.concurrency, async (entry, index) => {
+      const outcome = await this.processBatchJournalEntry(entry, index, autoSubmit);
+      if (stopOnError && outcome.failed) {
+        stopped = true;
+      }
+      return outcome;
+    }, () => stopped);
 
-      try {
+    for (const outcome of outcomes) {
+      if (!outcome) {
+        continue;
+      }
+      if (outcome.created) {
+        result.success_count++;
+        result.created_entries.push(outcome.created);
+      }
+      if (outcome.failed) {
+        result.error_count++;
+        if (stopOnError && result.stopped_at === undefined) {
+          result.stopped_at = outcome.index;
+        }
+      }
+      result.errors.push(...outcome.errors);
+    }
+
+    return result;
+  }
+
+  // Validate, create and optionally submit one batch entry, capturing its errors
+  private async processBatchJournalEntry(
+    entry: JournalEntry,
+    index: number,
+    autoSubmit: boolean
+  ): Promise<{ index: number; created?: BatchJournalEntryCreatedEntry; failed: boolean; errors: BatchJournalEntryError[] }> {
+    const { idempotency_key: idempotencyKey, ...payload } = entry;
+    const errors: BatchJournalEntryError[] = [];
+
+    try {
+      // Return the entry an earlier run created with the same idempotency key
+      const existing = idempotencyKey
+        ? await this.findIdempotentDocument('Journal Entry', idempotencyKey)
+        : undefined;
+
+      let createdEntry: BatchJournalEntryCreatedEntry;
+      let validation: JournalEntryValidation | undefined;
+
+      if (existing) {
+        createdEntry = this.replayedJournalEntry(index, existing);
+      } else {
         // Validate the journal entry first
-        const validation = await this.validateJournalEntry(entry);
+        validation = await this.validateJournalEntry(payload);
 
         if (!validation.is_valid) {
-          // Validation failed
-          result.error_count++;
-          result.errors.push({
+          errors.push({
             index,
             entry,
             error: `Validation failed: ${validation.errors.join(', ')}`,
             validation_result: validation
           });
-
-          if (stopOnError) {
-            throw new Error(`Stopped at entry ${index} due to validation failure`);
-          }
-          continue;
+          return { index, failed: true, errors };
         }
 
         // Create the journal entry
-        const created = await this.createDocument('Journal Entry', entry);
+        const created = await this.createDocument('Journal Entry', payload, idempotencyKey);
         const entryName = created.data?.name || created.name;
 
         if (!entryName) {
           throw new Error('Journal entry created but no name returned');
         }
 
-        // Optionally submit the entry
-        let submitted = false;
-        if (autoSubmit) {
-          try {
-            await this.submitJournalEntry(entryName);
-            submitted = true;
-          } catch (submitError: any) {
-            // Entry created but submission failed - still count as partial success
-            result.errors.push({
-              index,
-              entry,
-              error: `Entry created as ${entryName} but submission failed: ${submitError?.message || 'Unknown error'}`,
-              validation_result: validation
-            });
-          }
-        }
-
-        // Record success
-        result.success_count++;
-        result.created_entries.push({
+        createdEntry = {
           index,
           name: entryName,
           posting_date: entry.posting_date,
           total_debit: validation.total_debit,
           total_credit: validation.total_credit,
-          submitted
-        });
+          submitted: false
+        };
+      }
 
-      } catch (error: any) {
-        // Creation or other error
+      // Optionally submit the entry
+      if (autoSubmit && !createdEntry.submitted) {
+        try {
+          await this.submitJournalEntry(createdEntry.name);
+          createdEntry.submitted = true;
+        } catch (submitError: any) {
+          // Entry created but submission failed - still count as partial success
+          errors.push({
+            index,
+            entry,
+            error: `Entry created as ${createdEntry.name} but submission failed: ${submitError?.message || 'Unknown error'}`,
+            validation_result: validation
+          });
+        }
+      }
+
+      return { index, created: createdEntry, failed: false, errors };
+    } catch (error: any) {
+      // Creation or other error
+      errors.push({
+        index,
+        entry,
+        error: error?.message || 'Unknown error during creation'
+      });
+      return { index, failed: true, errors };
+    }
+  }
+
+  // All-or-nothing batch: validate everything, create every draft, then submit. On any failure,
+  // cancel what was submitted and delete the drafts that were created.
+  private async batchCreateJournalEntriesAtomic(
+    entries: JournalEntry[],
+    autoSubmit: boolean
+  ): Promise<BatchJournalEntryResult> {
+    const result: BatchJournalEntryResult = {
+      success_count: 0,
+      error_count: 0,
+      created_entries: [],
+      errors: []
+    };
+
+    const payloads = entries.map(({ idempotency_key, ...payload }) => payload);
+    const keys = entries.map(entry => entry.idempotency_key);
+
+    // Validate every entry before anything is written; entries an earlier run
+    // already created (same idempotency key) are reused as they are
+    const checks = await mapWithConcurrency(entries, this.concurrency, async (entry, index) => {
+      const key = keys[index];
+      const existing = key ? await this.findIdempotentDocument('Journal Entry', key) : undefined;
+      if (existing) {
+        return { replayed: this.replayedJournalEntry(index, existing), validation: undefined };
+      }
+      return { replayed: undefined, validation: await this.validateJournalEntry(payloads[index]) };
+    });
+
+    const validations = checks.map(check => check?.validation);
+    checks.forEach((check, index) => {
+      if (check?.validation && !check.validation.is_valid) {
         result.error_count++;
         result.errors.push({
           index,
-          entry,
-          error: error?.message || 'Unknown error during creation'
+          entry: entries[index],
+          error: `Validation failed: ${check.validation.errors.join(', ')}`,
+          validation_result: check.validation
         });
+      }
+    });
 
-        if (stopOnError) {
-          throw new Error(`Stopped at entry ${index}: ${error?.message || 'Unknown error'}`);
+    if (result.error_count > 0) {
+      result.stopped_at = result.errors[0].index;
+      return result;
+    }
+
+    // Create the drafts; after a failure no further creations are started
+    const failures: { index: number; error: string }[] = [];
+    const createdByIndex = await mapWithConcurrency(entries, this.concurrency, async (entry, index) => {
+      const reused = checks[index]?.replayed;
+      if (reused) {
+        return reused;
+      }
+      try {
+        const doc = await this.createDocument('Journal Entry', payloads[index], keys[index]);
+        const entryName = doc.data?.name || doc.name;
+        if (!entryName) {
+          throw new Error('Journal entry created but no name returned');
         }
+        const created: BatchJournalEntryCreatedEntry = {
+          index,
+          name: entryName,
+          posting_date: entry.posting_date,
+          total_debit: validations[index]?.total_debit || 0,
+          total_credit: validations[index]?.total_credit || 0,
+          submitted: false
+        };
+        return created;
+      } catch (error: any) {
+        failures.push({ index, error: error?.message || 'Unknown error during creation' });
+        return undefined;
       }
+    }, () => failures.length > 0);
+
+    const created = createdByIndex.filter((entry): entry is BatchJournalEntryCreatedEntry => entry !== undefined);
+
+    if (autoSubmit && failures.length === 0) {
+      await mapWithConcurrency(created, this.concurrency, async entry => {
+        if (entry.submitted) {
+          return;
+        }
+        try {
+          await this.submitJournalEntry(entry.name);
+          entry.submitted = true;
+        } catch (error: any) {
+          failures.push({ index: entry.index, error: `Entry created as ${entry.name} but submission failed: ${error?.message || 'Unknown error'}` });
+        }
+      }, () => failures.length > 0);
     }
 
+    if (failures.length === 0) {
+      result.success_count = created.length;
+      result.created_entries = created;
+      return result;
+    }
+
+    // Report the earliest failing entry
+    const failure = failures.reduce((first, current) => current.index < first.index ? current : first);
+
+    result.error_count = 1;
+    result.stopped_at = failure.index;
+    result.errors.push({
+      index: failure.index,
+      entry: entries[failure.index],
+      error: failure.error,
+      validation_result: validations[failure.index]
+    });
+    result.rollback = await this.rollbackJournalEntries(
+      created.filter(entry => !entry.replayed),
+      failure,
+      keys
+    );
+
     return result;
   }
-}
 
-// Cache for doctype metadata
-const doctypeCache = new Map<string, any>();
+  // Batch result row for a journal entry found by its idempotency key
+  private replayedJournalEntry(index: number, doc: Record<string, any>): BatchJournalEntryCreatedEntry {
+    return {
+      index,
+      name: doc.name,
+      posting_date: doc.posting_date,
+      total_debit: Number(doc.total_debit) || 0,
+      total_credit: Number(doc.total_credit) || 0,
+      submitted: doc.docstatus === 1,
+      replayed: true
+    };
+  }
 
-// Initialize ERPNext client
-const erpnext = new ERPNextClient();
+  // Undo created journal entries, newest first: cancel submitted ones, delete drafts
+  private async rollbackJournalEntries(
+    created: BatchJournalEntryCreatedEntry[],
+    failure: { index: number; error: string },
+    keys: (string | undefined)[]
+  ): Promise<BatchRollbackReport> {
+    const report: BatchRollbackReport = {
+      reason: failure.error,
+      failed_index: failure.index,
+      complete: true,
+      actions: []
+    };
 
-// Create an MCP server with capabilities for resources and tools
-const server = new Server(
-  {
-    name: "erpnext-server",
-    version: "0.1.0"
-  },
-  {
-    capabilities: {
-      resources: {},
-      tools: {}
+    for (const entry of [...created].reverse()) {
+      const action = entry.submitted ? 'cancelled' : 'deleted';
+      try {
+        if (entry.submitted) {
+          await this.cancelDocument('Journal Entry', entry.name);
+        } else {
+          await this.deleteDocument('Journal Entry', entry.name);
+        }
+        // A cancelled or deleted entry no longer answers for its key, so a retry creates a new one
+        const key = keys[entry.index];
+        if (key) {
+          await this.idempotencyLedger?.remove(this.site, key);
+        }
+        report.actions.push({ index: entry.index, name: entry.name, action, success: true });
+      } catch (error: any) {
+        report.complete = false;
+        report.actions.push({
+          index: entry.index,
+          name: entry.name,
+          action,
+          success: false,
+          error: error?.message || 'Unknown error'
+        });
+      }
     }
+
+    return report;
   }
-);
+}
+
+// Site profiles, loaded in main(), and one client per site created on first use
+let siteConfig: SiteConfig = { default_site: '', sites: [] };
+let idempotencyLedger: IdempotencyLedger | undefined;
+const clients = new Map<string, ERPNextClient>();
+
+// Access policy, loaded in main(); dry runs are tracked for require_dry_run
+let policy: Policy = DEFAULT_POLICY;
+let dryRuns = new DryRunTracker(DEFAULT_POLICY.dry_run_ttl_minutes);
+
+// Audit log of write tool calls, opened in main() unless ERPNEXT_AUDIT_LOG is "off"
+let auditLog: AuditLog | undefined;
+
+// Set in main() when serving HTTP, where every session shares the site clients and
+// file arguments are confined to ERPNEXT_MCP_HTTP_FILE_DIR
+let httpMode = false;
+let httpFileDir: string | undefined;
 
 /**
- * Handler for listing available ERPNext resources.
- * Exposes DocTypes list as a resource and common doctypes as individual resources.
+ * Client for a named site, or the default site when none is given
  */
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  // List of common DocTypes to expose as individual resources
-  const commonDoctypes = [
-    "Customer",
-    "Supplier",
-    "Item",
+function getClient(site?: unknown): ERPNextClient {
+  if (site !== undefined && typeof site !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, "site must be a string");
+  }
+
+  const name = site || siteConfig.default_site;
+  const profile = siteConfig.sites.find(candidate => candidate.name === name);
+  if (!profile) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown site: ${name}. Configured sites: ${siteConfig.sites.map(candidate => candidate.name).join(', ')}`
+    );
+  }
+
+  let client = clients.get(name);
+  if (!client) {
+    client = new ERPNextClient(profile, idempotencyLedger);
+    clients.set(name, client);
+  }
+  return client;
+}
+
+/**
+ * Create an MCP server with capabilities for resources and tools. Each connection
+ * (stdio, or one HTTP session) gets its own server; sites and clients are shared.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "erpnext-server",
+      version: "0.1.0"
+    },
+    {
+      capabilities: {
+        resources: {},
+        tools: {}
+      }
+    }
+  );
+
+  server.setRequestHandler(ListResourcesRequestSchema, listResources);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplates);
+  server.setRequestHandler(ReadResourceRequestSchema, readResource);
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, handleToolCall);
+
+  return server;
+}
+
+/**
+ * Handler for listing available ERPNext resources.
+ * Exposes DocTypes list as a resource and common doctypes as individual resources.
+ */
+async function listResources() {
+  // List of common DocTypes to expose as individual resources
+  const commonDoctypes = [
+    "Customer",
+    "Supplier",
+    "Item",
     "Sales Order",
     "Purchase Order",
     "Sales Invoice",
@@ -698,40 +2803,65 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
     }
   ];
 
+  // The same resources on every other configured site, selected with ?site=
+  for (const site of siteConfig.sites) {
+    if (site.name === siteConfig.default_site) {
+      continue;
+    }
+    const query = `?site=${encodeURIComponent(site.name)}`;
+    resources.push(
+      {
+        uri: `erpnext://DocTypes${query}`,
+        name: `All DocTypes (${site.name})`,
+        mimeType: "application/json",
+        description: `List of all available DocTypes on site ${site.name}`
+      },
+      {
+        uri: `erpnext://companies${query}`,
+        name: `Company List (${site.name})`,
+        mimeType: "application/json",
+        description: `List of all companies on site ${site.name}`
+      }
+    );
+  }
+
   return {
     resources
   };
-});
+}
 
 /**
  * Handler for resource templates.
  * Allows querying ERPNext documents by doctype and name.
  */
-server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+async function listResourceTemplates() {
   const resourceTemplates = [
     {
-      uriTemplate: "erpnext://{doctype}/{name}",
+      uriTemplate: "erpnext://{doctype}/{name}{?site}",
       name: "ERPNext Document",
       mimeType: "application/json",
-      description: "Fetch an ERPNext document by doctype and name"
+      description: "Fetch an ERPNext document by doctype and name, optionally from a named site"
     }
   ];
 
   return { resourceTemplates };
-});
+}
 
 /**
  * Handler for reading ERPNext resources.
  */
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  if (!erpnext.isAuthenticated()) {
+async function readResource(request: ReadResourceRequest) {
+  // Any resource URI may select a site with ?site=<name>
+  const [uri, query] = request.params.uri.split('?', 2);
+  const erpnext = getClient(new URLSearchParams(query || '').get('site') ?? undefined);
+
+  if (!(await erpnext.isAuthenticated())) {
     throw new McpError(
       ErrorCode.InvalidRequest,
-      "Not authenticated with ERPNext. Please configure API key authentication."
+      `Not authenticated with ERPNext site ${erpnext.site}. Please configure API key authentication or log in with authenticate_erpnext.`
     );
   }
 
-  const uri = request.params.uri;
   let result: any;
 
   // Handle special resource: erpnext://companies
@@ -741,8 +2871,9 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       result = { companies };
     } catch (error: any) {
       throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to fetch companies: ${error?.message || 'Unknown error'}`
+        error instanceof FrappeError ? mcpErrorCode(error) : ErrorCode.InternalError,
+        `Failed to fetch companies: ${error?.message || 'Unknown error'}`,
+        error instanceof FrappeError ? frappeErrorData(error) : undefined
       );
     }
   } else if (uri === "erpnext://DocTypes") {
@@ -752,8 +2883,9 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       result = { doctypes };
     } catch (error: any) {
       throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to fetch DocTypes: ${error?.message || 'Unknown error'}`
+        error instanceof FrappeError ? mcpErrorCode(error) : ErrorCode.InternalError,
+        `Failed to fetch DocTypes: ${error?.message || 'Unknown error'}`,
+        error instanceof FrappeError ? frappeErrorData(error) : undefined
       );
     }
   } else {
@@ -763,12 +2895,19 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const doctype = decodeURIComponent(documentMatch[1]);
       const name = decodeURIComponent(documentMatch[2]);
 
+      try {
+        checkDoctype(policy, doctype);
+      } catch (error: any) {
+        throw new McpError(ErrorCode.InvalidRequest, `Blocked by policy: ${error.message}`, { rule: error.rule });
+      }
+
       try {
         result = await erpnext.getDocument(doctype, name);
       } catch (error: any) {
         throw new McpError(
-          ErrorCode.InvalidRequest,
-          `Failed to fetch ${doctype} ${name}: ${error?.message || 'Unknown error'}`
+          error instanceof FrappeError ? mcpErrorCode(error) : ErrorCode.InvalidRequest,
+          `Failed to fetch ${doctype} ${name}: ${error?.message || 'Unknown error'}`,
+          error instanceof FrappeError ? frappeErrorData(error) : undefined
         );
       }
     }
@@ -777,7 +2916,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
   if (!result) {
     throw new McpError(
       ErrorCode.InvalidRequest,
-      `Invalid ERPNext resource URI: ${uri}`
+      `Invalid ERPNext resource URI: ${request.params.uri}`
     );
   }
 
@@ -788,14 +2927,111 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       text: JSON.stringify(result, null, 2)
     }]
   };
-});
+}
 
 /**
  * Handler that lists available tools.
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
+async function listTools() {
+  const tools = [
+      {
+        name: "list_sites",
+        description: "List the configured ERPNext sites; pass one as the site argument of any other tool",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        }
+      },
+      {
+        name: "get_audit_log",
+        description: "Query the local audit log of write operations (creates, updates, submits, cancels, deletes, imports and reconciliations), newest first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            from_date: {
+              type: "string",
+              description: "Earliest date (YYYY-MM-DD) or ISO timestamp to include (optional)"
+            },
+            to_date: {
+              type: "string",
+              description: "Latest date (YYYY-MM-DD) or ISO timestamp to include (optional)"
+            },
+            tool: {
+              type: "string",
+              description: "Only calls of this tool, e.g. 'update_document' (optional)"
+            },
+            doctype: {
+              type: "string",
+              description: "Only calls that changed a document of this DocType (optional)"
+            },
+            document: {
+              type: "string",
+              description: "Only calls that changed the document with this name (optional)"
+            },
+            site: {
+              type: "string",
+              description: "Only calls made against this site (optional)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of records to return (optional, defaults to 50)"
+            }
+          }
+        }
+      },
+      {
+        name: "authenticate_erpnext",
+        description: "Log in to ERPNext with a username and password; later calls act with that user's permissions until logout",
+        inputSchema: {
+          type: "object",
+          properties: {
+            username: {
+              type: "string",
+              description: "ERPNext username or email"
+            },
+            password: {
+              type: "string",
+              description: "ERPNext password"
+            }
+          },
+          required: ["username", "password"]
+        }
+      },
+      {
+        name: "logout_erpnext",
+        description: "End the login session started with authenticate_erpnext",
+        inputSchema: {
+          type: "object",
+          properties: {
+            revoke_oauth: {
+              type: "boolean",
+              description: "Also revoke and delete the stored OAuth token (optional, defaults to false)"
+            }
+          }
+        }
+      },
+      {
+        name: "start_oauth_login",
+        description: "Start an OAuth2 login: returns the ERPNext authorization URL to open in a browser",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        }
+      },
+      {
+        name: "complete_oauth_login",
+        description: "Finish an OAuth2 login with the redirect URL (or authorization code) from start_oauth_login; the token is stored and refreshed automatically",
+        inputSchema: {
+          type: "object",
+          properties: {
+            authorization_response: {
+              type: "string",
+              description: "The full URL the browser was redirected to, or just its code parameter"
+            }
+          },
+          required: ["authorization_response"]
+        }
+      },
       {
         name: "get_doctypes",
         description: "Get a list of all available DocTypes",
@@ -806,21 +3042,25 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "get_doctype_fields",
-        description: "Get fields list for a specific DocType",
+        description: "Get the DocType schema: fields with fieldtype, label, mandatory/read-only flags, permission level, Link targets, Select options and child table schemas",
         inputSchema: {
           type: "object",
           properties: {
             doctype: {
               type: "string",
               description: "ERPNext DocType (e.g., Customer, Item)"
+            },
+            refresh: {
+              type: "boolean",
+              description: "Reload metadata from ERPNext instead of using the cached schema (optional, defaults to false)"
             }
           },
-            required: ["doctype"]
+          required: ["doctype"]
         }
       },
       {
         name: "get_documents",
-        description: "Get a list of documents for a specific doctype",
+        description: "Get a page of documents for a specific doctype, with sorting, offset/cursor paging and an optional total count",
         inputSchema: {
           type: "object",
           properties: {
@@ -836,14 +3076,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Fields to include (optional)"
             },
             filters: {
-              type: "object",
-              additionalProperties: true,
-              description: "Filters in the format {field: value} (optional)"
+              ...FILTERS_SCHEMA,
+              description: "Filters combined with AND, either {field: value} / {field: [operator, value]} or a list of [field, operator, value] conditions. Child table fields use [child_doctype, field, operator, value]. Operators: =, !=, >, <, >=, <=, like, not like, in, not in, between, is ('set' / 'not set'), timespan, descendants of, ancestors of (optional)"
             },
-            limit: {
-              type: "number",
-              description: "Maximum number of documents to return (optional)"
-            }
+            or_filters: {
+              ...FILTERS_SCHEMA,
+              description: "Filters combined with OR, in the same formats as filters (optional)"
+            },
+            ...PAGINATION_SCHEMA_PROPERTIES
           },
           required: ["doctype"]
         }
@@ -862,6 +3102,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "object",
               additionalProperties: true,
               description: "Document data"
+            },
+            idempotency_key: {
+              type: "string",
+              description: "Unique key for this creation; repeating a call with the same key returns the document it created instead of creating another (optional)"
+            },
+            dry_run: {
+              type: "boolean",
+              description: "Validate fields and Link values and return the request that would be sent, without creating anything (optional, defaults to false)"
             }
           },
           required: ["doctype", "data"]
@@ -885,11 +3133,92 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "object",
               additionalProperties: true,
               description: "Document data to update"
+            },
+            dry_run: {
+              type: "boolean",
+              description: "Return a field-level diff against the current document and the request that would be sent, without updating anything (optional, defaults to false)"
             }
           },
           required: ["doctype", "name", "data"]
         }
       },
+      {
+        name: "submit_document",
+        description: "Submit (post) a draft document of any submittable doctype. Fails if the document is not a draft.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: {
+              type: "string",
+              description: "Submittable DocType (e.g., Sales Invoice, Payment Entry, Purchase Invoice, Stock Entry)"
+            },
+            name: {
+              type: "string",
+              description: "Document name/ID"
+            }
+          },
+          required: ["doctype", "name"]
+        }
+      },
+      {
+        name: "cancel_document",
+        description: "Cancel a submitted document of any submittable doctype. Fails if the document is not submitted.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: {
+              type: "string",
+              description: "Submittable DocType (e.g., Sales Invoice, Payment Entry, Purchase Invoice, Stock Entry)"
+            },
+            name: {
+              type: "string",
+              description: "Document name/ID"
+            }
+          },
+          required: ["doctype", "name"]
+        }
+      },
+      {
+        name: "amend_document",
+        description: "Create a draft amendment of a cancelled document (linked through amended_from), optionally overriding fields. Fails if the document is not cancelled.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: {
+              type: "string",
+              description: "Submittable DocType (e.g., Sales Invoice, Payment Entry, Purchase Invoice, Stock Entry)"
+            },
+            name: {
+              type: "string",
+              description: "Document name/ID"
+            },
+            data: {
+              type: "object",
+              additionalProperties: true,
+              description: "Field values to change on the amendment (optional)"
+            }
+          },
+          required: ["doctype", "name"]
+        }
+      },
+      {
+        name: "delete_document",
+        description: "Delete a draft or cancelled document. Submitted documents must be cancelled first.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: {
+              type: "string",
+              description: "ERPNext DocType (e.g., Customer, Item)"
+            },
+            name: {
+              type: "string",
+              description: "Document name/ID"
+            }
+          },
+          required: ["doctype", "name"]
+        }
+      },
       {
         name: "run_report",
         description: "Run an ERPNext report",
@@ -919,7 +3248,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "get_account_tree",
-        description: "Get hierarchical chart of accounts tree for a company",
+        description: "Get the chart of accounts for a company: one level of the tree, or the whole hierarchy with rolled-up balances (full_tree)",
         inputSchema: {
           type: "object",
           properties: {
@@ -933,7 +3262,24 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             include_balances: {
               type: "boolean",
-              description: "Include current balances for accounts (not implemented in Phase 1)"
+              description: "Include balances (as of as_of_date); with full_tree, group balances are rolled up from their accounts"
+            },
+            full_tree: {
+              type: "boolean",
+              description: "Return the whole chart of accounts as a nested tree instead of one level (parent_account is ignored)"
+            },
+            as_of_date: {
+              type: "string",
+              description: "Balance date in YYYY-MM-DD format (optional, defaults to today)"
+            },
+            format: {
+              type: "string",
+              enum: ["json", "text"],
+              description: "Full tree output: nested JSON or an indented text listing (optional, defaults to json)"
+            },
+            hide_zero_balances: {
+              type: "boolean",
+              description: "With full_tree and include_balances, leave out accounts with no postings (optional, defaults to false)"
             }
           },
           required: ["company"]
@@ -959,7 +3305,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "get_trial_balance",
-        description: "Get trial balance report for a company as of a specific date",
+        description: "Get the trial balance for a company over a reporting period, using the company's fiscal years (fiscal year to date by default)",
         inputSchema: {
           type: "object",
           properties: {
@@ -967,21 +3313,22 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Company name (e.g., 'Personal', 'LLC')"
             },
-            as_of_date: {
-              type: "string",
-              description: "Date for trial balance in YYYY-MM-DD format (optional, defaults to today)"
-            },
+            ...PERIOD_SCHEMA_PROPERTIES,
             show_zero_balances: {
               type: "boolean",
               description: "Include accounts with zero balances (optional, defaults to false)"
+            },
+            include_opening: {
+              type: "boolean",
+              description: "Include opening and closing balances; false reports only the movements within the period (optional, defaults to true)"
             }
           },
           required: ["company"]
         }
       },
       {
-        name: "search_accounts",
-        description: "Search accounts by account number or name (fuzzy search)",
+        name: "get_general_ledger",
+        description: "Get the GL Entries behind an account balance: opening balance, each posting with a running balance, and the closing balance, optionally grouped by voucher or party",
         inputSchema: {
           type: "object",
           properties: {
@@ -989,63 +3336,184 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Company name (e.g., 'Personal', 'LLC')"
             },
-            query: {
+            account: {
               type: "string",
-              description: "Search term (account number like '1111' or partial name like 'Checking')"
+              description: "Account name (optional)"
             },
-            limit: {
-              type: "number",
-              description: "Maximum number of results to return (optional, defaults to 10)"
-            }
-          },
-          required: ["company", "query"]
-        }
-      },
-      {
-        name: "list_accounts_by_type",
-        description: "List accounts filtered by account type or root type",
-        inputSchema: {
-          type: "object",
-          properties: {
-            company: {
+            include_child_accounts: {
+              type: "boolean",
+              description: "For a group account, include every account below it (optional, defaults to false)"
+            },
+            party_type: {
               type: "string",
-              description: "Company name (e.g., 'Personal', 'LLC')"
+              description: "Party type, e.g. 'Customer' or 'Supplier' (optional)"
             },
-            account_type: {
+            party: {
               type: "string",
-              description: "Filter by account type: Bank, Cash, Receivable, Payable, Stock, Tax, etc. (optional)"
+              description: "Party name (optional)"
             },
-            root_type: {
+            voucher_type: {
               type: "string",
-              description: "Filter by root type: Asset, Liability, Equity, Income, Expense (optional)"
+              description: "Voucher type, e.g. 'Journal Entry' or 'Sales Invoice' (optional)"
             },
-            include_groups: {
-              type: "boolean",
-              description: "Include group/parent accounts (optional, defaults to false)"
+            voucher_no: {
+              type: "string",
+              description: "Voucher number (optional)"
+            },
+            cost_center: {
+              type: "string",
+              description: "Cost center (optional)"
+            },
+            ...PERIOD_SCHEMA_PROPERTIES,
+            group_by: {
+              type: "string",
+              enum: ["voucher", "party"],
+              description: "Also summarize all postings of the period per voucher (in posting order) or per party (largest movement first), including those beyond the entry limit (optional)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of postings to list (optional, defaults to 500); balances always cover every posting"
             }
           },
           required: ["company"]
         }
       },
       {
-        name: "get_bank_accounts",
-        description: "Get list of bank accounts for a company",
+        name: "get_balance_sheet",
+        description: "Get the balance sheet for a company as sections of lines with balances at the end of each period, optionally compared with the prior period or prior year",
         inputSchema: {
           type: "object",
-          properties: {
-            company: {
-              type: "string",
-              description: "Company name to filter bank accounts (optional)"
-            }
-          }
+          properties: STATEMENT_SCHEMA_PROPERTIES,
+          required: ["company"]
         }
       },
       {
-        name: "search_bank_transactions",
-        description: "Search bank transactions with various filters for matching against entries or reconciliation",
+        name: "get_profit_and_loss",
+        description: "Get the profit and loss statement for a company as sections of lines with amounts per period, optionally compared with the prior period, prior year or budget",
         inputSchema: {
           type: "object",
-          properties: {
+          properties: STATEMENT_SCHEMA_PROPERTIES,
+          required: ["company"]
+        }
+      },
+      {
+        name: "get_cash_flow",
+        description: "Get the cash flow statement for a company as sections (operations, investing, financing) with amounts per period, optionally compared with the prior period or prior year",
+        inputSchema: {
+          type: "object",
+          properties: STATEMENT_SCHEMA_PROPERTIES,
+          required: ["company"]
+        }
+      },
+      {
+        name: "get_consolidated_report",
+        description: "Get a consolidated trial balance, balance sheet or profit and loss for a parent company and all its subsidiaries, with a column per company, intercompany eliminations and the consolidated total in the parent's currency",
+        inputSchema: {
+          type: "object",
+          properties: {
+            parent_company: {
+              type: "string",
+              description: "Parent company of the group; every company below it (through parent_company) is included"
+            },
+            report: {
+              type: "string",
+              enum: ["trial_balance", "balance_sheet", "profit_and_loss"],
+              description: "Report to consolidate (optional, defaults to trial_balance)"
+            },
+            ...PERIOD_SCHEMA_PROPERTIES,
+            map_by: {
+              type: "string",
+              enum: ["account_number", "account_name", "root_type"],
+              description: "How accounts of different companies are matched: by account number (falling back to account name), by account name, or one line per root type (optional, defaults to account_number)"
+            },
+            exchange_rates: {
+              type: "object",
+              additionalProperties: { type: "number" },
+              description: "Rates into the parent's currency by subsidiary currency, e.g. {\"EUR\": 1.08} (optional; missing rates use the latest Currency Exchange on or before to_date)"
+            },
+            intercompany_accounts: {
+              type: "array",
+              items: { type: "string" },
+              description: "Accounts (full name, account name or number) whose whole balance is intercompany and eliminated; receivables and payables of the group's internal customers and suppliers, and the income and expense of the vouchers posted against them, are always eliminated (optional)"
+            },
+            format: {
+              type: "string",
+              enum: ["json", "text"],
+              description: "Structured JSON or a text table (optional, defaults to json)"
+            }
+          },
+          required: ["parent_company"]
+        }
+      },
+      {
+        name: "search_accounts",
+        description: "Search accounts by account number or name (fuzzy search)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            company: {
+              type: "string",
+              description: "Company name (e.g., 'Personal', 'LLC')"
+            },
+            query: {
+              type: "string",
+              description: "Search term (account number like '1111' or partial name like 'Checking')"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of results to return (optional, defaults to 10)"
+            }
+          },
+          required: ["company", "query"]
+        }
+      },
+      {
+        name: "list_accounts_by_type",
+        description: "List accounts filtered by account type or root type",
+        inputSchema: {
+          type: "object",
+          properties: {
+            company: {
+              type: "string",
+              description: "Company name (e.g., 'Personal', 'LLC')"
+            },
+            account_type: {
+              type: "string",
+              description: "Filter by account type: Bank, Cash, Receivable, Payable, Stock, Tax, etc. (optional)"
+            },
+            root_type: {
+              type: "string",
+              description: "Filter by root type: Asset, Liability, Equity, Income, Expense (optional)"
+            },
+            include_groups: {
+              type: "boolean",
+              description: "Include group/parent accounts (optional, defaults to false)"
+            },
+            ...PAGINATION_SCHEMA_PROPERTIES
+          },
+          required: ["company"]
+        }
+      },
+      {
+        name: "get_bank_accounts",
+        description: "Get list of bank accounts for a company",
+        inputSchema: {
+          type: "object",
+          properties: {
+            company: {
+              type: "string",
+              description: "Company name to filter bank accounts (optional)"
+            },
+            ...PAGINATION_SCHEMA_PROPERTIES
+          }
+        }
+      },
+      {
+        name: "search_bank_transactions",
+        description: "Search bank transactions with various filters for matching against entries or reconciliation",
+        inputSchema: {
+          type: "object",
+          properties: {
             bank_account: {
               type: "string",
               description: "Bank account name to filter (optional)"
@@ -1073,10 +3541,98 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             max_amount: {
               type: "number",
               description: "Maximum transaction amount (optional)"
-            }
+            },
+            ...PAGINATION_SCHEMA_PROPERTIES
           }
         }
       },
+      {
+        name: "suggest_reconciliation_matches",
+        description: "Suggest reconciliation matches for unreconciled bank transactions. Scores submitted Payment Entries, Journal Entries and outstanding Sales/Purchase Invoices on amount, date proximity, reference/cheque number and party name, and returns ranked matches with the reasons for each score.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            bank_account: {
+              type: "string",
+              description: "Bank account whose unreconciled transactions should be matched"
+            },
+            bank_transactions: {
+              type: "array",
+              items: { type: "string" },
+              description: "Only match these Bank Transaction names (optional, defaults to all unreconciled transactions)"
+            },
+            from_date: {
+              type: "string",
+              description: "Start date in YYYY-MM-DD format (optional)"
+            },
+            to_date: {
+              type: "string",
+              description: "End date in YYYY-MM-DD format (optional)"
+            },
+            date_window_days: {
+              type: "number",
+              description: "Days either side of the transaction date to look for payments and journal entries (optional, defaults to 7)"
+            },
+            invoice_lookback_days: {
+              type: "number",
+              description: "Days before the transaction date to look for outstanding invoices (optional, defaults to 90)"
+            },
+            amount_tolerance_percent: {
+              type: "number",
+              description: "Amount difference, as a percentage of the transaction amount, still scored as a near match (optional, defaults to 1)"
+            },
+            min_score: {
+              type: "number",
+              description: "Minimum score (0-100) for a match to be returned (optional, defaults to 30)"
+            },
+            max_matches: {
+              type: "number",
+              description: "Maximum matches per transaction (optional, defaults to 5)"
+            }
+          },
+          required: ["bank_account"]
+        }
+      },
+      {
+        name: "reconcile_bank_transaction",
+        description: "Reconcile a bank transaction against one or more vouchers (Payment Entry, Journal Entry, ...) using ERPNext's bank reconciliation API. Supports partial allocations and refuses to allocate more than the transaction's unallocated amount. Set unreconcile to remove voucher links instead.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            bank_transaction: {
+              type: "string",
+              description: "Bank Transaction name/ID"
+            },
+            allocations: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  voucher_type: {
+                    type: "string",
+                    description: "Voucher doctype (e.g., Payment Entry, Journal Entry)"
+                  },
+                  voucher_name: {
+                    type: "string",
+                    description: "Voucher name/ID"
+                  },
+                  amount: {
+                    type: "number",
+                    description: "Amount to allocate (optional for a single voucher, defaults to the unallocated amount)"
+                  }
+                },
+                required: ["voucher_type", "voucher_name"]
+              },
+              description: "Vouchers to link, or when unreconciling, vouchers to unlink (empty unlinks all)"
+            },
+            unreconcile: {
+              type: "boolean",
+              description: "Remove voucher links instead of adding them (optional, defaults to false)"
+            }
+          },
+          required: ["bank_transaction"]
+        }
+      },
       {
         name: "batch_import_bank_transactions",
         description: "Batch import bank transactions from CSV/Excel data using ERPNext's create_bank_entries API",
@@ -1099,11 +3655,113 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             bank_account: {
               type: "string",
               description: "Bank account name to associate transactions with"
+            },
+            skip_duplicates: {
+              type: "boolean",
+              description: "Skip rows that already exist as Bank Transactions for this bank account, matched by transaction ID or date + amount + description (optional, defaults to true; needs recognizable Date, amount and Description headers)"
+            },
+            import_likely_duplicates: {
+              type: "boolean",
+              description: "Also import rows flagged as likely duplicates (same amount within 2 days) (optional, defaults to false)"
+            },
+            dry_run: {
+              type: "boolean",
+              description: "Run the duplicate check and return the rows that would be sent, without importing anything (optional, defaults to false)"
             }
           },
           required: ["columns", "data", "bank_account"]
         }
       },
+      {
+        name: "import_bank_statement",
+        description: "Parse a bank statement file (CSV with a column mapping, OFX/QFX, QIF or ISO 20022 CAMT.053 XML) into Bank Transactions. Returns a preview by default; set preview to false to create and submit the transactions.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            bank_account: {
+              type: "string",
+              description: "Bank account name to associate transactions with"
+            },
+            file_path: {
+              type: "string",
+              description: "Path of the statement file on the server's machine (optional if content is given)"
+            },
+            content: {
+              type: "string",
+              description: "Statement file content (optional if file_path is given)"
+            },
+            format: {
+              type: "string",
+              enum: ["csv", "ofx", "qif", "camt053"],
+              description: "Statement format (optional, detected from the file name and content)"
+            },
+            mapping: {
+              type: "object",
+              description: "CSV column mapping: {date, description, amount | deposit/withdrawal, reference, transaction_id, party_name}, each {field_name, column_index} with a zero-based column_index (required for CSV)"
+            },
+            delimiter: {
+              type: "string",
+              description: "CSV delimiter (optional, defaults to ',')"
+            },
+            has_header: {
+              type: "boolean",
+              description: "Whether the CSV has a header row (optional, defaults to true)"
+            },
+            date_order: {
+              type: "string",
+              enum: ["YMD", "MDY", "DMY"],
+              description: "Order of day, month and year in numeric dates such as 03/04/25 (optional; QIF defaults to MDY)"
+            },
+            decimal_separator: {
+              type: "string",
+              enum: [".", ","],
+              description: "Decimal separator of CSV and QIF amounts (optional; detected per amount when omitted, so a lone comma as in 1,234 is read as a decimal point)"
+            },
+            preview: {
+              type: "boolean",
+              description: "Only parse and return the normalized transactions without importing (optional, defaults to true)"
+            },
+            skip_duplicates: {
+              type: "boolean",
+              description: "Check against existing Bank Transactions for this bank account and import only new rows (optional, defaults to true)"
+            },
+            import_likely_duplicates: {
+              type: "boolean",
+              description: "Also import rows flagged as likely duplicates (optional, defaults to false)"
+            }
+          },
+          required: ["bank_account"]
+        }
+      },
+      {
+        name: "categorize_bank_transactions",
+        description: "Apply categorization rules from a local JSON/YAML file to unreconciled bank transactions. Returns draft journal entries for review (nothing is created) and lists the transactions no rule matched.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            rules_file: {
+              type: "string",
+              description: "Path of the rules file (optional, defaults to the ERPNEXT_RULES_FILE environment variable)"
+            },
+            bank_account: {
+              type: "string",
+              description: "Bank account name to filter (optional)"
+            },
+            company: {
+              type: "string",
+              description: "Company name to filter (optional)"
+            },
+            from_date: {
+              type: "string",
+              description: "Start date in YYYY-MM-DD format (optional)"
+            },
+            to_date: {
+              type: "string",
+              description: "End date in YYYY-MM-DD format (optional)"
+            }
+          }
+        }
+      },
       {
         name: "validate_journal_entry",
         description: "Validate a journal entry to ensure debits equal credits before submission",
@@ -1135,6 +3793,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             submit: {
               type: "boolean",
               description: "Automatically submit (post) the journal entry after creation (optional, defaults to false)"
+            },
+            idempotency_key: {
+              type: "string",
+              description: "Unique key for this creation; repeating a call with the same key returns the document it created instead of creating another (optional)"
+            },
+            dry_run: {
+              type: "boolean",
+              description: "Validate balances, accounts and other Link values and return the request that would be sent, without creating anything (optional, defaults to false)"
             }
           },
           required: ["journal_entry"]
@@ -1164,7 +3830,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "array",
               items: {
                 type: "object",
-                description: "Journal entry object with posting_date, company, accounts array, and optional user_remark"
+                description: "Journal entry object with posting_date, company, accounts array, optional user_remark, and optional idempotency_key (a repeated key returns the entry created earlier instead of a new one)"
               },
               description: "Array of journal entries to create"
             },
@@ -1174,317 +3840,1562 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             stop_on_error: {
               type: "boolean",
-              description: "Stop batch processing on first error instead of continuing (optional, defaults to false)"
+              description: "Stop batch processing on first error instead of continuing; entries are then processed one at a time (optional, defaults to false)"
+            },
+            atomic: {
+              type: "boolean",
+              description: "All-or-nothing: validate every entry first, and if any creation or submission fails, cancel submitted entries and delete created drafts (optional, defaults to false)"
+            },
+            dry_run: {
+              type: "boolean",
+              description: "Validate every entry and return what would be created, without creating anything (optional, defaults to false)"
             }
           },
           required: ["entries"]
         }
       }
-    ]
-  };
-});
+  ];
+
+  return {
+    tools: tools
+      .filter(tool => isToolVisible(policy, tool.name) && !(httpMode && LOGIN_TOOLS.has(tool.name)))
+      .map(tool => SITELESS_TOOLS.has(tool.name) ? tool : withSiteArgument(tool))
+  };
+}
+
+// Input schema properties shared by tools that report over a period
+const PERIOD_SCHEMA_PROPERTIES = {
+  period: {
+    type: "string",
+    enum: PERIOD_PRESETS,
+    description: "Period preset based on the company's fiscal years: this_month, last_month, this_quarter, last_quarter (fiscal quarters), ytd, this_fiscal_year, prior_fiscal_year (optional; defaults to ytd when no dates are given)"
+  },
+  from_date: {
+    type: "string",
+    description: "Period start in YYYY-MM-DD format (optional, defaults to the start of the fiscal year containing to_date)"
+  },
+  to_date: {
+    type: "string",
+    description: "Period end in YYYY-MM-DD format (optional, defaults to as_of_date)"
+  },
+  as_of_date: {
+    type: "string",
+    description: "Date the presets are relative to, in YYYY-MM-DD format (optional, defaults to today)"
+  }
+};
+
+// Input schema properties shared by the financial statement tools
+const STATEMENT_SCHEMA_PROPERTIES = {
+  company: {
+    type: "string",
+    description: "Company name (e.g., 'Personal', 'LLC')"
+  },
+  ...PERIOD_SCHEMA_PROPERTIES,
+  periodicity: {
+    type: "string",
+    enum: Object.keys(PERIODICITIES),
+    description: "Split the period into monthly, quarterly, half_yearly or yearly columns (optional, defaults to yearly)"
+  },
+  compare: {
+    type: "string",
+    enum: ["prior_period", "prior_year", "budget"],
+    description: "Add comparison and variance columns against the preceding period of the same length, the same dates a year earlier, or the submitted budget (profit and loss only) (optional)"
+  },
+  cost_center: {
+    type: "string",
+    description: "Only include postings for this cost center (optional)"
+  },
+  project: {
+    type: "string",
+    description: "Only include postings for this project (optional)"
+  },
+  format: {
+    type: "string",
+    enum: ["json", "text"],
+    description: "Structured JSON or a text table (optional, defaults to json)"
+  }
+};
+
+// Statement produced by each financial statement tool
+const STATEMENT_TOOLS: Record<string, StatementKind> = {
+  get_balance_sheet: 'balance_sheet',
+  get_profit_and_loss: 'profit_and_loss',
+  get_cash_flow: 'cash_flow'
+};
+
+/**
+ * Read the period arguments shared by reporting tools.
+ */
+function parsePeriodArguments(args: Record<string, unknown> | undefined): PeriodSpec {
+  const period = args?.period as string | undefined;
+  if (period !== undefined && !PERIOD_PRESETS.includes(period as PeriodPreset)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown period: ${period}. Expected one of ${PERIOD_PRESETS.join(', ')}`
+    );
+  }
+
+  const spec: PeriodSpec = {
+    period: period as PeriodPreset | undefined,
+    from_date: args?.from_date as string | undefined,
+    to_date: args?.to_date as string | undefined,
+    as_of_date: args?.as_of_date as string | undefined
+  };
+
+  if (spec.period && (spec.from_date || spec.to_date)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Pass either period or from_date/to_date, not both"
+    );
+  }
+
+  return spec;
+}
+
+// Tools that are not tied to one site
+const SITELESS_TOOLS = new Set(["list_sites", "get_audit_log"]);
+
+// Tools that change a site client's login, which HTTP sessions would share
+const LOGIN_TOOLS = new Set(["authenticate_erpnext", "logout_erpnext", "start_oauth_login", "complete_oauth_login"]);
+
+/**
+ * Add the optional site argument to a tool's input schema.
+ */
+function withSiteArgument<T extends { inputSchema: { properties: Record<string, any> } }>(tool: T): T {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        site: {
+          type: "string",
+          description: "Name of the configured ERPNext site to use (optional, defaults to the default site; see list_sites)"
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Append the site a tool result came from.
+ */
+function withSiteLabel(result: CallToolResult, erpnext: ERPNextClient): CallToolResult {
+  return {
+    ...result,
+    content: [
+      ...result.content,
+      {
+        type: "text",
+        text: `Site: ${erpnext.site} (${erpnext.baseUrl})`
+      }
+    ]
+  };
+}
+
+/**
+ * Describe the configured sites without their credentials.
+ */
+async function listSites(): Promise<CallToolResult> {
+  const sites = await Promise.all(siteConfig.sites.map(async site => ({
+    name: site.name,
+    url: site.url,
+    description: site.description,
+    default: site.name === siteConfig.default_site,
+    authentication: await getClient(site.name).authMethod()
+  })));
+
+  let text = `Configured ERPNext sites (${sites.length}):\n\n`;
+  sites.forEach(site => {
+    text += `  ${site.name}${site.default ? ' (default)' : ''} - ${site.url} - auth: ${site.authentication}`;
+    text += site.description ? ` - ${site.description}\n` : `\n`;
+  });
+  text += `\n${JSON.stringify(sites, null, 2)}`;
+
+  return {
+    content: [{
+      type: "text",
+      text
+    }]
+  };
+}
+
+/**
+ * Format a dry-run preview as tool result text.
+ */
+function formatDryRun(preview: DryRunResult): string {
+  const target = preview.name ? `${preview.doctype} ${preview.name}` : preview.doctype;
+
+  let text = `DRY RUN - nothing was sent to ERPNext.\n\n`;
+  text += `Would ${preview.operation} ${target}: ${preview.is_valid ? 'valid' : 'INVALID'}\n\n`;
+
+  if (preview.errors.length > 0) {
+    text += `Errors:\n${preview.errors.map(e => `  - ${e}`).join('\n')}\n\n`;
+  }
+
+  if (preview.warnings.length > 0) {
+    text += `Warnings:\n${preview.warnings.map(w => `  - ${w}`).join('\n')}\n\n`;
+  }
+
+  if (preview.changes) {
+    text += `Changes:\n`;
+    preview.changes.forEach(change => {
+      text += `  ${change.field}: ${JSON.stringify(change.from)} -> ${JSON.stringify(change.to)}\n`;
+    });
+    text += `\n`;
+  }
+
+  if (preview.link_checks.length > 0) {
+    const missing = preview.link_checks.filter(check => !check.exists).length;
+    text += `Links checked: ${preview.link_checks.length} (${missing} missing)\n\n`;
+  }
+
+  text += `Request:\n${JSON.stringify(preview.request, null, 2)}`;
+  return text;
+}
+
+/**
+ * Format a duplicate check as a text section for tool results.
+ */
+function formatDuplicateCheck(check: DuplicateCheckResult): string {
+  let text = `Duplicate Check:\n`;
+  text += `  New: ${check.new_count}\n`;
+  text += `  Duplicates: ${check.duplicate_count}\n`;
+  text += `  Likely duplicates: ${check.likely_duplicate_count}\n`;
+
+  check.rows
+    .filter(row => row.status !== 'new')
+    .forEach(row => {
+      const t = row.transaction;
+      const amount = (t.deposit || 0) > 0 ? `+${(t.deposit || 0).toFixed(2)}` : `-${(t.withdrawal || 0).toFixed(2)}`;
+      text += `  [${row.row_index}] ${row.status} - ${t.date} ${amount} ${t.description} -> ${row.existing_transaction}: ${row.reason}\n`;
+    });
+
+  return text + `\n`;
+}
+
+/**
+ * Handler for tool calls.
+ */
+async function handleToolCall(request: CallToolRequest, extra?: { sessionId?: string }): Promise<CallToolResult> {
+  if (httpMode && LOGIN_TOOLS.has(request.params.name)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${request.params.name} is not available over HTTP, where every session shares the server's ERPNext credentials. Configure API keys, or complete an OAuth login over stdio so the stored token is used.`
+    );
+  }
+
+  if (request.params.name === "list_sites") {
+    enforcePolicy(request, siteConfig.default_site);
+    return await listSites();
+  }
+
+  if (request.params.name === "get_audit_log") {
+    enforcePolicy(request, siteConfig.default_site);
+    return await getAuditLog(request);
+  }
+
+  const erpnext = getClient(request.params.arguments?.site);
+  const fingerprint = enforcePolicy(request, erpnext.site, extra?.sessionId);
+
+  // Handlers report their own failures; an ERPNext error that escapes one is still a
+  // tool failure the agent can act on, so it becomes an error result, not a protocol error
+  let result: CallToolResult;
+  try {
+    await enforceStoredJournalEntryLimit(request, erpnext);
+    result = await auditedCallTool(request, erpnext);
+  } catch (error: any) {
+    if (!(error instanceof FrappeError)) {
+      throw error;
+    }
+    result = {
+      content: [{
+        type: "text",
+        text: error.message
+      }],
+      isError: true,
+      _meta: { error: frappeErrorData(error) }
+    };
+  }
+
+  // A successful dry run authorizes the matching real call under require_dry_run
+  if (fingerprint && isDryRunCall(request.params.name, request.params.arguments || {}) && !result.isError) {
+    dryRuns.record(fingerprint);
+  }
+
+  return withSiteLabel(result, erpnext);
+}
+
+/**
+ * Run a tool, appending a record to the audit log when it writes to ERPNext.
+ */
+async function auditedCallTool(request: CallToolRequest, erpnext: ERPNextClient): Promise<CallToolResult> {
+  const tool = request.params.name;
+  const args = request.params.arguments || {};
+  if (!auditLog || !WRITE_TOOLS.has(tool) || isDryRunCall(tool, args)) {
+    return callTool(request, erpnext);
+  }
+
+  const { documents, result, error } = await collectAuditDocuments(() => callTool(request, erpnext));
+  const errorText = error
+    ? (error as any)?.message || 'Unknown error'
+    : result?.isError ? result.content.map(item => item.type === "text" ? item.text : '').join('\n') : undefined;
+
+  try {
+    await auditLog.append({
+      timestamp: new Date().toISOString(),
+      site: erpnext.site,
+      tool,
+      arguments: redactArguments(args),
+      success: !errorText,
+      error: errorText,
+      documents
+    });
+  } catch (appendError: any) {
+    // The write already happened; report the logging failure without hiding its result
+    console.error(`Failed to write audit log ${auditLog.filePath}: ${appendError?.message || 'Unknown error'}`);
+  }
+
+  if (error) {
+    throw error;
+  }
+  return result!;
+}
+
+/**
+ * Query the audit log.
+ */
+async function getAuditLog(request: CallToolRequest): Promise<CallToolResult> {
+  if (!auditLog) {
+    return {
+      content: [{
+        type: "text",
+        text: "The audit log is disabled (ERPNEXT_AUDIT_LOG is off)."
+      }],
+      isError: true
+    };
+  }
+
+  const args = request.params.arguments || {};
+  const limit = args.limit as number | undefined || 50;
+
+  try {
+    const { records, total } = await auditLog.query({
+      from_date: args.from_date as string | undefined,
+      to_date: args.to_date as string | undefined,
+      tool: args.tool as string | undefined,
+      doctype: args.doctype as string | undefined,
+      document: args.document as string | undefined,
+      site: args.site as string | undefined,
+      limit
+    });
+
+    let text = `Audit log: ${records.length} of ${total} matching record(s), newest first\n\n`;
+    records.forEach(record => {
+      const documents = record.documents.map(document => `${document.action} ${document.doctype} ${document.name}`).join(', ');
+      text += `  ${record.timestamp} [${record.site}] ${record.tool} - ${record.success ? 'OK' : 'FAILED'}`;
+      text += documents ? ` - ${documents}\n` : `\n`;
+    });
+    text += `\n${JSON.stringify(records, null, 2)}`;
+
+    return {
+      content: [{
+        type: "text",
+        text
+      }]
+    };
+  } catch (error: any) {
+    return {
+      content: [{
+        type: "text",
+        text: `Failed to read audit log: ${error?.message || 'Unknown error'}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * A file path from a tool argument. Over HTTP, callers may only read files in the
+ * configured directory, since the server's own files are not theirs to read.
+ */
+async function callerFilePath(argument: string, filePath: string): Promise<string> {
+  if (!httpMode) {
+    return filePath;
+  }
+  try {
+    return await confinedFilePath(filePath, httpFileDir);
+  } catch (error: any) {
+    throw new McpError(ErrorCode.InvalidParams, `${argument}: ${error.message}`);
+  }
+}
+
+/**
+ * Reject a tool call the policy blocks. Returns the call's fingerprint when the
+ * tool requires a dry run first, so a successful dry run can be recorded.
+ */
+function enforcePolicy(request: CallToolRequest, site: string, sessionId?: string): string | undefined {
+  const tool = request.params.name;
+  const args = request.params.arguments || {};
+
+  try {
+    checkToolCall(policy, tool, args);
+  } catch (error: any) {
+    if (error instanceof PolicyError) {
+      throw new McpError(ErrorCode.InvalidRequest, `Blocked by policy: ${error.message}`, { rule: error.rule });
+    }
+    throw error;
+  }
+
+  if (!policy.require_dry_run.includes(tool)) {
+    return undefined;
+  }
+
+  const fingerprint = callFingerprint(site, tool, args, sessionId);
+  if (!isDryRunCall(tool, args) && !dryRuns.consume(fingerprint)) {
+    const flag = tool === "import_bank_statement" ? "preview" : "dry_run";
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Blocked by policy: ${tool} requires a successful dry run first. Call it with ${flag}: true and the same arguments, then repeat the call within ${policy.dry_run_ttl_minutes} minutes.`,
+      { rule: 'require_dry_run' }
+    );
+  }
+  return fingerprint;
+}
+
+/**
+ * Apply max_journal_entry_amount to a stored Journal Entry that a call posts without
+ * passing its lines, such as a submit of a draft created in ERPNext itself
+ */
+async function enforceStoredJournalEntryLimit(request: CallToolRequest, erpnext: ERPNextClient): Promise<void> {
+  const name = storedJournalEntryName(policy, request.params.name, request.params.arguments || {});
+  if (!name) {
+    return;
+  }
+
+  const entry = await erpnext.getDocument('Journal Entry', name);
+  try {
+    checkJournalEntryAmount(policy, entry, `Journal Entry ${name}`);
+  } catch (error: any) {
+    if (error instanceof PolicyError) {
+      throw new McpError(ErrorCode.InvalidRequest, `Blocked by policy: ${error.message}`, { rule: error.rule });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a tool against one site.
+ */
+async function callTool(request: CallToolRequest, erpnext: ERPNextClient): Promise<CallToolResult> {
+  switch (request.params.name) {
+    case "authenticate_erpnext": {
+      const username = request.params.arguments?.username as string | undefined;
+      const password = request.params.arguments?.password as string | undefined;
+
+      if (!username || !password) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "username and password are required"
+        );
+      }
+
+      try {
+        const session = await erpnext.login(username, password);
+        return {
+          content: [{
+            type: "text",
+            text: `Logged in to ERPNext as ${session.user}${session.full_name ? ` (${session.full_name})` : ''}. Tools now act with this user's permissions.`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to log in: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+
+    case "logout_erpnext": {
+      const revokeOAuth = (request.params.arguments?.revoke_oauth as boolean | undefined) || false;
+
+      const user = await erpnext.logout();
+      let message = user ? `Logged out ${user}.` : `No login session was active.`;
+
+      if (revokeOAuth) {
+        const revoked = erpnext.oauth ? await erpnext.oauth.revoke() : false;
+        message += revoked ? ` OAuth token revoked.` : ` No OAuth token was stored.`;
+      }
+
+      const method = await erpnext.authMethod();
+      if (method === 'oauth') {
+        message += ` Requests now use the OAuth token.`;
+      } else if (method === 'api_key') {
+        message += ` Requests use the API key again.`;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: message
+        }]
+      };
+    }
+
+    case "start_oauth_login": {
+      if (!erpnext.oauth) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Site ${erpnext.site} has no OAuth client configured`
+        );
+      }
+
+      const { url, state } = erpnext.oauth.authorizationUrl();
+      return {
+        content: [{
+          type: "text",
+          text: `Open this URL, approve access, then pass the URL you are redirected to (or its code) to complete_oauth_login:\n\n${url}\n\nState: ${state}`
+        }]
+      };
+    }
+
+    case "complete_oauth_login": {
+      const authorizationResponse = request.params.arguments?.authorization_response as string | undefined;
+
+      if (!erpnext.oauth) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Site ${erpnext.site} has no OAuth client configured`
+        );
+      }
+      if (!authorizationResponse) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "authorization_response is required"
+        );
+      }
+
+      try {
+        const { code, state } = parseAuthorizationResponse(authorizationResponse);
+        const token = await erpnext.oauth.exchangeCode(code, state);
+        return {
+          content: [{
+            type: "text",
+            text: `OAuth login complete. Access token valid until ${new Date(token.expires_at).toISOString()}${token.refresh_token ? ' and refreshed automatically' : ''}.`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to complete OAuth login: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+
+    case "get_documents": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+      
+      const doctype = String(request.params.arguments?.doctype);
+      const fields = request.params.arguments?.fields as string[] | undefined;
+      const filters = request.params.arguments?.filters as DocFilters | undefined;
+      const orFilters = request.params.arguments?.or_filters as DocFilters | undefined;
+      const page = parsePageArguments(request.params.arguments);
+      
+      if (!doctype) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Doctype is required"
+        );
+      }
+
+      let conditions;
+      let orConditions;
+      try {
+        conditions = normalizeFilters(filters);
+        orConditions = normalizeFilters(orFilters, 'or_filters');
+      } catch (error: any) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+
+      // Check field names against the DocType schema when it is readable
+      const meta = await erpnext.getDocTypeMeta(doctype).catch(() => undefined);
+      if (meta) {
+        try {
+          validateFilterFields(conditions, meta);
+          validateFilterFields(orConditions, meta, 'or_filters');
+        } catch (error: any) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+      }
+      
+      try {
+        const documents = await erpnext.getDocPage(
+          doctype,
+          conditions,
+          fields,
+          page,
+          20,
+          undefined,
+          orFilters ? orConditions : undefined
+        );
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(documents, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to get ${doctype} documents: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+    
+    case "create_document": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+      
+      const doctype = String(request.params.arguments?.doctype);
+      const data = request.params.arguments?.data as Record<string, any> | undefined;
+      const dryRun = request.params.arguments?.dry_run as boolean | undefined || false;
+      const rawIdempotencyKey = request.params.arguments?.idempotency_key;
+      
+      if (!doctype || !data) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Doctype and data are required"
+        );
+      }
+
+      let idempotencyKey: string | undefined;
+      if (rawIdempotencyKey !== undefined) {
+        try {
+          idempotencyKey = validateIdempotencyKey(rawIdempotencyKey);
+        } catch (error: any) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+      }
+      
+      try {
+        if (dryRun) {
+          const preview = await erpnext.previewCreateDocument(doctype, data);
+          return {
+            content: [{
+              type: "text",
+              text: formatDryRun(preview)
+            }],
+            isError: !preview.is_valid
+          };
+        }
+
+        if (idempotencyKey) {
+          const { doc, replayed } = await erpnext.createDocumentIdempotent(doctype, data, idempotencyKey);
+          const heading = replayed
+            ? `${doctype} ${doc.name} was already created with idempotency key ${idempotencyKey}; nothing new was created`
+            : `Created ${doctype}: ${doc.name}`;
+          return {
+            content: [{
+              type: "text",
+              text: `${heading}\n\n${JSON.stringify(doc, null, 2)}`
+            }]
+          };
+        }
+
+        const result = await erpnext.createDocument(doctype, data);
+        return {
+          content: [{
+            type: "text",
+            text: `Created ${doctype}: ${result.name}\n\n${JSON.stringify(result, null, 2)}`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to create ${doctype}: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+    
+    case "update_document": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+      
+      const doctype = String(request.params.arguments?.doctype);
+      const name = String(request.params.arguments?.name);
+      const data = request.params.arguments?.data as Record<string, any> | undefined;
+      const dryRun = request.params.arguments?.dry_run as boolean | undefined || false;
+      
+      if (!doctype || !name || !data) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Doctype, name, and data are required"
+        );
+      }
+      
+      try {
+        if (dryRun) {
+          const preview = await erpnext.previewUpdateDocument(doctype, name, data);
+          return {
+            content: [{
+              type: "text",
+              text: formatDryRun(preview)
+            }],
+            isError: !preview.is_valid
+          };
+        }
+
+        const result = await erpnext.updateDocument(doctype, name, data);
+        return {
+          content: [{
+            type: "text",
+            text: `Updated ${doctype} ${name}\n\n${JSON.stringify(result, null, 2)}`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to update ${doctype} ${name}: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+    
+    case "submit_document": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+
+      const doctype = request.params.arguments?.doctype as string | undefined;
+      const name = request.params.arguments?.name as string | undefined;
+
+      if (!doctype || !name) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Doctype and name are required"
+        );
+      }
+
+      try {
+        const result = await erpnext.submitDocument(doctype, name);
+        return {
+          content: [{
+            type: "text",
+            text: `Submitted ${doctype} ${name}\n\n${JSON.stringify(result, null, 2)}`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to submit ${doctype} ${name}: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+
+    case "cancel_document": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+
+      const doctype = request.params.arguments?.doctype as string | undefined;
+      const name = request.params.arguments?.name as string | undefined;
+
+      if (!doctype || !name) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Doctype and name are required"
+        );
+      }
+
+      try {
+        const result = await erpnext.cancelDocument(doctype, name);
+        return {
+          content: [{
+            type: "text",
+            text: `Cancelled ${doctype} ${name}\n\n${JSON.stringify(result, null, 2)}`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to cancel ${doctype} ${name}: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+
+    case "amend_document": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+
+      const doctype = request.params.arguments?.doctype as string | undefined;
+      const name = request.params.arguments?.name as string | undefined;
+      const data = request.params.arguments?.data as Record<string, any> | undefined;
+
+      if (!doctype || !name) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Doctype and name are required"
+        );
+      }
+
+      try {
+        const result = await erpnext.amendDocument(doctype, name, data);
+        return {
+          content: [{
+            type: "text",
+            text: `Created draft amendment ${result.name} of ${doctype} ${name}\n\n${JSON.stringify(result, null, 2)}`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to amend ${doctype} ${name}: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+
+    case "delete_document": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+
+      const doctype = request.params.arguments?.doctype as string | undefined;
+      const name = request.params.arguments?.name as string | undefined;
+
+      if (!doctype || !name) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Doctype and name are required"
+        );
+      }
+
+      try {
+        await erpnext.deleteDocument(doctype, name);
+        return {
+          content: [{
+            type: "text",
+            text: `Deleted ${doctype} ${name}`
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to delete ${doctype} ${name}: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+
+    case "run_report": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+      
+      const reportName = String(request.params.arguments?.report_name);
+      const filters = request.params.arguments?.filters as Record<string, any> | undefined;
+      
+      if (!reportName) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Report name is required"
+        );
+      }
+      
+      // Reports read the data of their reference doctype, so doctype rules cover them too
+      const hasDoctypeRules = policy.doctypes.allow !== undefined || policy.doctypes.deny.length > 0;
+      const refDoctype = hasDoctypeRules ? await erpnext.getReportDoctype(reportName) : undefined;
+      if (refDoctype) {
+        try {
+          checkDoctype(policy, refDoctype);
+        } catch (error: any) {
+          throw new McpError(ErrorCode.InvalidRequest, `Blocked by policy: ${error.message}`, { rule: error.rule });
+        }
+      }
+
+      try {
+        const result = await erpnext.runReport(reportName, filters);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to run report ${reportName}: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+    
+    case "get_doctype_fields": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+      
+      const doctype = String(request.params.arguments?.doctype);
+      const refresh = request.params.arguments?.refresh as boolean | undefined || false;
+      
+      if (!doctype) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Doctype is required"
+        );
+      }
+      
+      try {
+        const meta = await erpnext.getDocTypeMeta(doctype, refresh);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(meta, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to get fields for ${doctype}: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+    
+    case "get_doctypes": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+      
+      try {
+        const doctypes = await erpnext.getAllDocTypes();
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(doctypes, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to get DocTypes: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
 
-/**
- * Handler for tool calls.
- */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  switch (request.params.name) {
-    case "get_documents": {
-      if (!erpnext.isAuthenticated()) {
+    case "get_companies": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
-      
-      const doctype = String(request.params.arguments?.doctype);
-      const fields = request.params.arguments?.fields as string[] | undefined;
-      const filters = request.params.arguments?.filters as Record<string, any> | undefined;
-      const limit = request.params.arguments?.limit as number | undefined;
-      
-      if (!doctype) {
+
+      try {
+        const companies = await erpnext.getCompanies();
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(companies, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to get companies: ${error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+    }
+
+    case "get_account_tree": {
+      if (!(await erpnext.isAuthenticated())) {
+        return {
+          content: [{
+            type: "text",
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
+          }],
+          isError: true
+        };
+      }
+
+      const company = String(request.params.arguments?.company);
+      const parentAccount = request.params.arguments?.parent_account as string | undefined;
+      const includeBalances = request.params.arguments?.include_balances as boolean | undefined;
+      const fullTree = request.params.arguments?.full_tree as boolean | undefined || false;
+      const asOfDate = request.params.arguments?.as_of_date as string | undefined;
+      const format = request.params.arguments?.format as string | undefined || 'json';
+      const hideZeroBalances = request.params.arguments?.hide_zero_balances as boolean | undefined || false;
+
+      if (!company) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Doctype is required"
+          "Company is required"
         );
       }
-      
+
+      if (format !== 'json' && format !== 'text') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "format must be json or text"
+        );
+      }
+
       try {
-        const documents = await erpnext.getDocList(doctype, filters, fields, limit);
+        if (fullTree) {
+          let nodes = await erpnext.getFullAccountTree(company, includeBalances || false, asOfDate);
+          if (includeBalances && hideZeroBalances) {
+            nodes = pruneZeroBalances(nodes);
+          }
+
+          const balanceNote = includeBalances
+            ? ` with balances as of ${asOfDate || new Date().toISOString().split('T')[0]} (debit positive, credit negative)`
+            : '';
+          const heading = `Chart of accounts for ${company}: ${countAccounts(nodes)} account(s)${balanceNote}\n\n`;
+          return {
+            content: [{
+              type: "text",
+              text: heading + (format === 'text' ? renderAccountTree(nodes) : JSON.stringify(nodes, null, 2))
+            }]
+          };
+        }
+
+        const tree = await erpnext.getAccountTree(company, parentAccount, includeBalances, asOfDate);
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(documents, null, 2)
+            text: JSON.stringify(tree, null, 2)
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to get ${doctype} documents: ${error?.message || 'Unknown error'}`
+            text: `Failed to get account tree for ${company}: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
-    
-    case "create_document": {
-      if (!erpnext.isAuthenticated()) {
+
+    case "get_account_balance": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
-      
-      const doctype = String(request.params.arguments?.doctype);
-      const data = request.params.arguments?.data as Record<string, any> | undefined;
-      
-      if (!doctype || !data) {
+
+      const account = String(request.params.arguments?.account);
+      const date = request.params.arguments?.date as string | undefined;
+
+      if (!account) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Doctype and data are required"
+          "Account is required"
         );
       }
-      
+
       try {
-        const result = await erpnext.createDocument(doctype, data);
+        const balance = await erpnext.getAccountBalance(account, date);
         return {
           content: [{
             type: "text",
-            text: `Created ${doctype}: ${result.name}\n\n${JSON.stringify(result, null, 2)}`
+            text: JSON.stringify({
+              account,
+              balance,
+              date: date || new Date().toISOString().split('T')[0]
+            }, null, 2)
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to create ${doctype}: ${error?.message || 'Unknown error'}`
+            text: `Failed to get balance for ${account}: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
-    
-    case "update_document": {
-      if (!erpnext.isAuthenticated()) {
+
+    case "get_trial_balance": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
-      
-      const doctype = String(request.params.arguments?.doctype);
-      const name = String(request.params.arguments?.name);
-      const data = request.params.arguments?.data as Record<string, any> | undefined;
-      
-      if (!doctype || !name || !data) {
+
+      const company = String(request.params.arguments?.company);
+      const periodSpec = parsePeriodArguments(request.params.arguments);
+      const showZeroBalances = request.params.arguments?.show_zero_balances as boolean | undefined || false;
+      const includeOpening = request.params.arguments?.include_opening as boolean | undefined ?? true;
+
+      if (!company) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Doctype, name, and data are required"
+          "Company is required"
         );
       }
-      
+
       try {
-        const result = await erpnext.updateDocument(doctype, name, data);
+        const trialBalance = await erpnext.getTrialBalance(company, periodSpec, showZeroBalances, includeOpening);
         return {
           content: [{
             type: "text",
-            text: `Updated ${doctype} ${name}\n\n${JSON.stringify(result, null, 2)}`
+            text: JSON.stringify(trialBalance, null, 2)
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to update ${doctype} ${name}: ${error?.message || 'Unknown error'}`
+            text: `Failed to get trial balance for ${company}: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
-    
-    case "run_report": {
-      if (!erpnext.isAuthenticated()) {
+
+    case "get_general_ledger": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
-      
-      const reportName = String(request.params.arguments?.report_name);
-      const filters = request.params.arguments?.filters as Record<string, any> | undefined;
-      
-      if (!reportName) {
+
+      const args = request.params.arguments;
+      const company = args?.company as string | undefined;
+      const periodSpec = parsePeriodArguments(args);
+      const groupBy = args?.group_by as 'voucher' | 'party' | undefined;
+      const limit = args?.limit as number | undefined || 500;
+
+      if (!company) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Report name is required"
+          "Company is required"
         );
       }
-      
+
+      if (groupBy !== undefined && groupBy !== 'voucher' && groupBy !== 'party') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "group_by must be voucher or party"
+        );
+      }
+
+      if (args?.party && !args?.party_type) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "party_type is required with party"
+        );
+      }
+
       try {
-        const result = await erpnext.runReport(reportName, filters);
+        const ledger = await erpnext.getGeneralLedger({
+          company,
+          account: args?.account as string | undefined,
+          include_child_accounts: args?.include_child_accounts as boolean | undefined || false,
+          party_type: args?.party_type as string | undefined,
+          party: args?.party as string | undefined,
+          voucher_type: args?.voucher_type as string | undefined,
+          voucher_no: args?.voucher_no as string | undefined,
+          cost_center: args?.cost_center as string | undefined,
+          limit
+        }, periodSpec, groupBy);
+
+        let text = `General Ledger for ${company}: ${ledger.period.from_date} to ${ledger.period.to_date}\n`;
+        if (ledger.accounts) {
+          text += `Accounts: ${ledger.accounts.length === 1 ? ledger.accounts[0] : `${args?.account} and ${ledger.accounts.length - 1} account(s) below it`}\n`;
+        }
+        text += `\nOpening balance: ${ledger.opening_balance.toFixed(2)}\n`;
+        text += `Debits: ${ledger.total_debit.toFixed(2)}\n`;
+        text += `Credits: ${ledger.total_credit.toFixed(2)}\n`;
+        text += `Closing balance: ${ledger.closing_balance.toFixed(2)}\n`;
+        text += `Postings: ${ledger.entry_count}`;
+        text += ledger.truncated
+          ? ` (first ${ledger.entries.length} listed${ledger.groups ? ' and grouped' : ''}; raise limit to see the rest)\n`
+          : `\n`;
+
+        if (ledger.groups) {
+          text += `\nBy ${ledger.group_by}:\n`;
+          ledger.groups.forEach(group => {
+            text += `  ${group.key}: net ${group.net.toFixed(2)} (Dr ${group.debit.toFixed(2)}, Cr ${group.credit.toFixed(2)}, ${group.entry_count} posting(s))`;
+            text += group.balance !== undefined ? ` -> balance ${group.balance.toFixed(2)}\n` : `\n`;
+          });
+        }
+
+        text += `\n${JSON.stringify(ledger, null, 2)}`;
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(result, null, 2)
+            text
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to run report ${reportName}: ${error?.message || 'Unknown error'}`
+            text: `Failed to get general ledger for ${company}: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
-    
-    case "get_doctype_fields": {
-      if (!erpnext.isAuthenticated()) {
+
+    case "get_balance_sheet":
+    case "get_profit_and_loss":
+    case "get_cash_flow": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
-      
-      const doctype = String(request.params.arguments?.doctype);
-      
-      if (!doctype) {
+
+      const kind = STATEMENT_TOOLS[request.params.name];
+      const company = request.params.arguments?.company as string | undefined;
+      const periodSpec = parsePeriodArguments(request.params.arguments);
+      const periodicity = request.params.arguments?.periodicity as Periodicity | undefined || 'yearly';
+      const compare = request.params.arguments?.compare as ComparisonBasis | undefined;
+      const costCenter = request.params.arguments?.cost_center as string | undefined;
+      const project = request.params.arguments?.project as string | undefined;
+      const format = request.params.arguments?.format as string | undefined || 'json';
+
+      if (!company) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Doctype is required"
+          "Company is required"
         );
       }
-      
+
+      if (!(periodicity in PERIODICITIES)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `periodicity must be one of ${Object.keys(PERIODICITIES).join(', ')}`
+        );
+      }
+
+      if (compare !== undefined && !['prior_period', 'prior_year', 'budget'].includes(compare)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "compare must be prior_period, prior_year or budget"
+        );
+      }
+
+      if (compare === 'budget' && kind !== 'profit_and_loss') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Budget comparison is only available for get_profit_and_loss"
+        );
+      }
+
+      if (format !== 'json' && format !== 'text') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "format must be json or text"
+        );
+      }
+
       try {
-        // Get a sample document to understand the fields
-        const documents = await erpnext.getDocList(doctype, {}, ["*"], 1);
-        
-        if (!documents || documents.length === 0) {
-          return {
-            content: [{
-              type: "text",
-              text: `No documents found for ${doctype}. Cannot determine fields.`
-            }],
-            isError: true
-          };
+        const statement = await erpnext.getFinancialStatement(kind, company, periodSpec, periodicity, compare, {
+          cost_center: costCenter,
+          project: project
+        });
+
+        const dates = `${statement.period.from_date} to ${statement.period.to_date}`;
+        let heading = `${STATEMENT_REPORTS[kind]} for ${company}: ${statement.period.label === dates ? dates : `${statement.period.label} (${dates})`}`;
+        heading += statement.currency ? `, ${statement.currency}\n` : `\n`;
+        if (statement.comparison) {
+          heading += `Compared with ${statement.comparison.basis.replace('_', ' ')}: ${statement.comparison.from_date} to ${statement.comparison.to_date}\n`;
+          heading += statement.comparison.note ? `${statement.comparison.note}\n` : '';
         }
-        
-        // Extract field names from the first document
-        const sampleDoc = documents[0];
-        const fields = Object.keys(sampleDoc).map(field => ({
-          fieldname: field,
-          value: typeof sampleDoc[field],
-          sample: sampleDoc[field]?.toString()?.substring(0, 50) || null
-        }));
-        
+
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(fields, null, 2)
+            text: `${heading}\n${format === 'text' ? renderStatement(statement) : JSON.stringify(statement, null, 2)}`
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to get fields for ${doctype}: ${error?.message || 'Unknown error'}`
+            text: `Failed to get ${STATEMENT_REPORTS[kind]} for ${company}: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
-    
-    case "get_doctypes": {
-      if (!erpnext.isAuthenticated()) {
+
+    case "get_consolidated_report": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
-      
+
+      const args = request.params.arguments;
+      const parentCompany = args?.parent_company as string | undefined;
+      const report = args?.report as ConsolidatedReportKind | undefined || 'trial_balance';
+      const periodSpec = parsePeriodArguments(args);
+      const mapBy = args?.map_by as AccountMapping | undefined || 'account_number';
+      const exchangeRates = args?.exchange_rates as Record<string, number> | undefined || {};
+      const intercompanyAccounts = args?.intercompany_accounts as string[] | undefined || [];
+      const format = args?.format as string | undefined || 'json';
+
+      if (!parentCompany) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "parent_company is required"
+        );
+      }
+
+      if (!(report in SIGN_CONVENTIONS)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "report must be trial_balance, balance_sheet or profit_and_loss"
+        );
+      }
+
+      if (!['account_number', 'account_name', 'root_type'].includes(mapBy)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "map_by must be account_number, account_name or root_type"
+        );
+      }
+
+      const badRate = Object.entries(exchangeRates).find(([, rate]) => typeof rate !== 'number' || !(rate > 0));
+      if (badRate) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Exchange rate for ${badRate[0]} must be a positive number`
+        );
+      }
+
+      if (!Array.isArray(intercompanyAccounts)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "intercompany_accounts must be an array of account names or numbers"
+        );
+      }
+
+      if (format !== 'json' && format !== 'text') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "format must be json or text"
+        );
+      }
+
       try {
-        const doctypes = await erpnext.getAllDocTypes();
+        const consolidated = await erpnext.getConsolidatedReport(parentCompany, report, periodSpec, mapBy, exchangeRates, intercompanyAccounts);
+
+        const dates = `${consolidated.period.from_date} to ${consolidated.period.to_date}`;
+        let heading = `Consolidated ${report.replace(/_/g, ' ')} for ${parentCompany}: ${consolidated.period.label === dates ? dates : `${consolidated.period.label} (${dates})`}, ${consolidated.presentation_currency}\n`;
+        consolidated.entities
+          .filter(entity => entity.rate_source !== 'same_currency')
+          .forEach(entity => {
+            heading += `${entity.company}: ${entity.currency} at ${entity.exchange_rate} (${entity.rate_source === 'argument' ? 'given' : 'Currency Exchange'})\n`;
+          });
+        heading += `${consolidated.sign_convention}\n`;
+        consolidated.notes.forEach(note => {
+          heading += `Note: ${note}\n`;
+        });
+
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(doctypes, null, 2)
+            text: `${heading}\n${format === 'text' ? renderConsolidation(consolidated.entities, consolidated.sections) : JSON.stringify(consolidated, null, 2)}`
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to get DocTypes: ${error?.message || 'Unknown error'}`
+            text: `Failed to get consolidated report for ${parentCompany}: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
 
-    case "get_companies": {
-      if (!erpnext.isAuthenticated()) {
+    case "search_accounts": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
 
+      const company = String(request.params.arguments?.company);
+      const query = String(request.params.arguments?.query);
+      const limit = request.params.arguments?.limit as number | undefined || 10;
+
+      if (!company || !query) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Company and query are required"
+        );
+      }
+
       try {
-        const companies = await erpnext.getCompanies();
+        const accounts = await erpnext.searchAccounts(company, query, limit);
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(companies, null, 2)
+            text: JSON.stringify(accounts, null, 2)
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to get companies: ${error?.message || 'Unknown error'}`
+            text: `Failed to search accounts for ${company}: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
 
-    case "get_account_tree": {
-      if (!erpnext.isAuthenticated()) {
+    case "list_accounts_by_type": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
 
       const company = String(request.params.arguments?.company);
-      const parentAccount = request.params.arguments?.parent_account as string | undefined;
-      const includeBalances = request.params.arguments?.include_balances as boolean | undefined;
+      const accountType = request.params.arguments?.account_type as string | undefined;
+      const rootType = request.params.arguments?.root_type as string | undefined;
+      const includeGroups = request.params.arguments?.include_groups as boolean | undefined || false;
+      const page = parsePageArguments(request.params.arguments);
 
       if (!company) {
         throw new McpError(
@@ -1494,305 +5405,507 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       try {
-        const tree = await erpnext.getAccountTree(company, parentAccount, includeBalances);
+        const accounts = await erpnext.listAccountsByType(company, accountType, rootType, includeGroups, page);
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(tree, null, 2)
+            text: JSON.stringify(accounts, null, 2)
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to get account tree for ${company}: ${error?.message || 'Unknown error'}`
+            text: `Failed to list accounts by type for ${company}: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
 
-    case "get_account_balance": {
-      if (!erpnext.isAuthenticated()) {
+    case "get_bank_accounts": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
 
-      const account = String(request.params.arguments?.account);
-      const date = request.params.arguments?.date as string | undefined;
-
-      if (!account) {
-        throw new McpError(
-          ErrorCode.InvalidParams,
-          "Account is required"
-        );
-      }
+      const company = request.params.arguments?.company as string | undefined;
+      const page = parsePageArguments(request.params.arguments);
 
       try {
-        const balance = await erpnext.getAccountBalance(account, date);
+        const accounts = await erpnext.getBankAccounts(company, page);
         return {
           content: [{
             type: "text",
-            text: JSON.stringify({
-              account,
-              balance,
-              date: date || new Date().toISOString().split('T')[0]
-            }, null, 2)
+            text: JSON.stringify(accounts, null, 2)
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to get balance for ${account}: ${error?.message || 'Unknown error'}`
+            text: `Failed to get bank accounts: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
 
-    case "get_trial_balance": {
-      if (!erpnext.isAuthenticated()) {
+    case "search_bank_transactions": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
 
-      const company = String(request.params.arguments?.company);
-      const asOfDate = request.params.arguments?.as_of_date as string | undefined;
-      const showZeroBalances = request.params.arguments?.show_zero_balances as boolean | undefined || false;
-
-      if (!company) {
-        throw new McpError(
-          ErrorCode.InvalidParams,
-          "Company is required"
-        );
-      }
+      const bankAccount = request.params.arguments?.bank_account as string | undefined;
+      const company = request.params.arguments?.company as string | undefined;
+      const status = request.params.arguments?.status as string | undefined;
+      const fromDate = request.params.arguments?.from_date as string | undefined;
+      const toDate = request.params.arguments?.to_date as string | undefined;
+      const minAmount = request.params.arguments?.min_amount as number | undefined;
+      const maxAmount = request.params.arguments?.max_amount as number | undefined;
+      const page = parsePageArguments(request.params.arguments);
 
       try {
-        const trialBalance = await erpnext.getTrialBalance(company, asOfDate, showZeroBalances);
+        const transactions = await erpnext.searchBankTransactions(
+          bankAccount,
+          company,
+          status,
+          fromDate,
+          toDate,
+          minAmount,
+          maxAmount,
+          page
+        );
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(trialBalance, null, 2)
+            text: JSON.stringify(transactions, null, 2)
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to get trial balance for ${company}: ${error?.message || 'Unknown error'}`
+            text: `Failed to search bank transactions: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
 
-    case "search_accounts": {
-      if (!erpnext.isAuthenticated()) {
+    case "suggest_reconciliation_matches": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
 
-      const company = String(request.params.arguments?.company);
-      const query = String(request.params.arguments?.query);
-      const limit = request.params.arguments?.limit as number | undefined || 10;
+      const bankAccount = request.params.arguments?.bank_account as string | undefined;
+      const transactionNames = request.params.arguments?.bank_transactions as string[] | undefined;
+      const fromDate = request.params.arguments?.from_date as string | undefined;
+      const toDate = request.params.arguments?.to_date as string | undefined;
+      const tolerancePercent = request.params.arguments?.amount_tolerance_percent as number | undefined;
 
-      if (!company || !query) {
+      if (!bankAccount) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Company and query are required"
+          "bank_account is required"
         );
       }
 
+      const options: Partial<MatchingOptions> = {};
+      const dateWindow = request.params.arguments?.date_window_days as number | undefined;
+      const invoiceLookback = request.params.arguments?.invoice_lookback_days as number | undefined;
+      const minScore = request.params.arguments?.min_score as number | undefined;
+      const maxMatches = request.params.arguments?.max_matches as number | undefined;
+      if (dateWindow !== undefined) {
+        options.date_window_days = dateWindow;
+      }
+      if (invoiceLookback !== undefined) {
+        options.invoice_lookback_days = invoiceLookback;
+      }
+      if (tolerancePercent !== undefined) {
+        options.amount_tolerance = tolerancePercent / 100;
+      }
+      if (minScore !== undefined) {
+        options.min_score = minScore;
+      }
+      if (maxMatches !== undefined) {
+        options.max_matches = maxMatches;
+      }
+
       try {
-        const accounts = await erpnext.searchAccounts(company, query, limit);
+        const suggestions = await erpnext.suggestReconciliationMatches(
+          bankAccount,
+          transactionNames,
+          fromDate,
+          toDate,
+          options
+        );
+
+        const matched = suggestions.filter(suggestion => suggestion.matches.length > 0);
+
+        let summary = `Reconciliation Suggestions:\n\n`;
+        summary += `Transactions checked: ${suggestions.length}\n`;
+        summary += `With candidate matches: ${matched.length}\n`;
+        summary += `Without matches: ${suggestions.length - matched.length}\n\n`;
+
+        suggestions.forEach(suggestion => {
+          summary += `${suggestion.bank_transaction} - ${suggestion.date} - ${suggestion.direction} ${suggestion.amount.toFixed(2)} - ${suggestion.description}\n`;
+          if (suggestion.matches.length === 0) {
+            summary += `  (no candidates)\n`;
+          }
+          suggestion.matches.forEach(match => {
+            summary += `  [${match.score}] ${match.voucher_type} ${match.voucher_name} - ${match.posting_date} - ${match.amount.toFixed(2)}: ${match.reasons.join('; ')}\n`;
+          });
+        });
+
+        summary += `\nDetailed Results:\n${JSON.stringify(suggestions, null, 2)}`;
+
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(accounts, null, 2)
+            text: summary
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to search accounts for ${company}: ${error?.message || 'Unknown error'}`
+            text: `Failed to suggest reconciliation matches: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
 
-    case "list_accounts_by_type": {
-      if (!erpnext.isAuthenticated()) {
+    case "reconcile_bank_transaction": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
 
-      const company = String(request.params.arguments?.company);
-      const accountType = request.params.arguments?.account_type as string | undefined;
-      const rootType = request.params.arguments?.root_type as string | undefined;
-      const includeGroups = request.params.arguments?.include_groups as boolean | undefined || false;
+      const bankTransaction = request.params.arguments?.bank_transaction as string | undefined;
+      const allocations = (request.params.arguments?.allocations as BankReconciliationAllocation[] | undefined) || [];
+      const unreconcile = (request.params.arguments?.unreconcile as boolean | undefined) || false;
 
-      if (!company) {
+      if (!bankTransaction) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Company is required"
+          "bank_transaction is required"
+        );
+      }
+
+      if (!unreconcile && allocations.length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "allocations must list at least one voucher to reconcile"
         );
       }
 
       try {
-        const accounts = await erpnext.listAccountsByType(company, accountType, rootType, includeGroups);
+        const result = unreconcile
+          ? await erpnext.unreconcileBankTransaction(bankTransaction, allocations)
+          : await erpnext.reconcileBankTransaction(bankTransaction, allocations);
+
+        let summary = `Bank Transaction ${result.bank_transaction} ${unreconcile ? 'unreconciled' : 'reconciled'}:\n\n`;
+        summary += `Status: ${result.status}\n`;
+        summary += `Allocated: ${result.allocated_amount.toFixed(2)}\n`;
+        summary += `Unallocated: ${result.unallocated_amount.toFixed(2)}\n\n`;
+        summary += JSON.stringify(result, null, 2);
+
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(accounts, null, 2)
+            text: summary
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to list accounts by type for ${company}: ${error?.message || 'Unknown error'}`
+            text: `Failed to ${unreconcile ? 'unreconcile' : 'reconcile'} bank transaction ${bankTransaction}: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
 
-    case "get_bank_accounts": {
-      if (!erpnext.isAuthenticated()) {
+    case "batch_import_bank_transactions": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
 
-      const company = request.params.arguments?.company as string | undefined;
+      const columns = request.params.arguments?.columns as string[] | undefined;
+      const data = request.params.arguments?.data as any[][] | undefined;
+      const bankAccount = request.params.arguments?.bank_account as string | undefined;
+      const skipDuplicates = request.params.arguments?.skip_duplicates as boolean | undefined ?? true;
+      const importLikelyDuplicates = request.params.arguments?.import_likely_duplicates as boolean | undefined || false;
+      const dryRun = request.params.arguments?.dry_run as boolean | undefined || false;
+
+      if (!columns || !data || !bankAccount) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "columns, data, and bank_account are required"
+        );
+      }
 
       try {
-        const accounts = await erpnext.getBankAccounts(company);
+        let rows = data;
+        let message = '';
+
+        if (skipDuplicates) {
+          const filtered = await erpnext.filterDuplicateImportRows(columns, data, bankAccount, importLikelyDuplicates);
+          rows = filtered.data;
+          message += filtered.duplicate_check
+            ? formatDuplicateCheck(filtered.duplicate_check)
+            : `Duplicate check skipped: could not identify date, amount and description columns.\n\n`;
+        }
+
+        if (dryRun) {
+          message = `DRY RUN - nothing was imported.\n\n` + message;
+          message += `Would send ${rows.length} of ${data.length} row(s):\n`;
+          message += JSON.stringify({
+            method: 'POST',
+            path: '/api/method/erpnext.accounts.doctype.bank_transaction.bank_transaction_upload.create_bank_entries',
+            body: {
+              columns: columns,
+              data: rows,
+              bank_account: bankAccount
+            }
+          }, null, 2);
+          return {
+            content: [{
+              type: "text",
+              text: message
+            }]
+          };
+        }
+
+        if (rows.length === 0) {
+          message += `Nothing to import: every row already exists.`;
+          return {
+            content: [{
+              type: "text",
+              text: message
+            }]
+          };
+        }
+
+        const result = await erpnext.batchImportBankTransactions(columns, rows, bankAccount);
+        message += `Bank transactions imported successfully:\n\n${JSON.stringify(result, null, 2)}`;
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(accounts, null, 2)
+            text: message
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to get bank accounts: ${error?.message || 'Unknown error'}`
+            text: `Failed to import bank transactions: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
 
-    case "search_bank_transactions": {
-      if (!erpnext.isAuthenticated()) {
+    case "import_bank_statement": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
 
       const bankAccount = request.params.arguments?.bank_account as string | undefined;
-      const company = request.params.arguments?.company as string | undefined;
-      const status = request.params.arguments?.status as string | undefined;
-      const fromDate = request.params.arguments?.from_date as string | undefined;
-      const toDate = request.params.arguments?.to_date as string | undefined;
-      const minAmount = request.params.arguments?.min_amount as number | undefined;
-      const maxAmount = request.params.arguments?.max_amount as number | undefined;
+      let filePath = request.params.arguments?.file_path as string | undefined;
+      const content = request.params.arguments?.content as string | undefined;
+      const format = request.params.arguments?.format as StatementFormat | undefined;
+      const preview = request.params.arguments?.preview as boolean | undefined ?? true;
+      const skipDuplicates = request.params.arguments?.skip_duplicates as boolean | undefined ?? true;
+      const importLikelyDuplicates = request.params.arguments?.import_likely_duplicates as boolean | undefined || false;
+
+      if (!bankAccount || (!filePath && content === undefined)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "bank_account and either file_path or content are required"
+        );
+      }
+
+      if (filePath && content === undefined) {
+        filePath = await callerFilePath('file_path', filePath);
+      }
 
       try {
-        const transactions = await erpnext.searchBankTransactions(
-          bankAccount,
-          company,
-          status,
-          fromDate,
-          toDate,
-          minAmount,
-          maxAmount
-        );
+        const statement = await loadStatement(filePath, content, format, {
+          bank_account: bankAccount,
+          mapping: request.params.arguments?.mapping as BankImportMapping | undefined,
+          delimiter: request.params.arguments?.delimiter as string | undefined,
+          has_header: request.params.arguments?.has_header as boolean | undefined,
+          date_order: request.params.arguments?.date_order as DateOrder | undefined,
+          decimal_separator: request.params.arguments?.decimal_separator as DecimalSeparator | undefined
+        });
+
+        const totalDeposits = statement.transactions.reduce((sum, t) => sum + (t.deposit || 0), 0);
+        const totalWithdrawals = statement.transactions.reduce((sum, t) => sum + (t.withdrawal || 0), 0);
+        const dates = statement.transactions.map(t => t.date).sort();
+
+        let summary = `Bank Statement (${statement.format}):\n\n`;
+        summary += `Transactions: ${statement.transactions.length}\n`;
+        summary += `Rows with errors: ${statement.errors.length}\n`;
+        if (dates.length > 0) {
+          summary += `Period: ${dates[0]} to ${dates[dates.length - 1]}\n`;
+        }
+        summary += `Total Deposits: ${totalDeposits.toFixed(2)}\n`;
+        summary += `Total Withdrawals: ${totalWithdrawals.toFixed(2)}\n`;
+        if (statement.currency) {
+          summary += `Currency: ${statement.currency}\n`;
+        }
+        if (statement.account_identifier) {
+          summary += `Statement Account: ${statement.account_identifier}\n`;
+        }
+        summary += `\n`;
+
+        if (statement.errors.length > 0) {
+          summary += `Errors:\n`;
+          statement.errors.forEach(error => {
+            summary += `  [${error.row_index}] ${error.error}\n`;
+          });
+          summary += `\n`;
+        }
+
+        let toImport = statement.transactions;
+        if (skipDuplicates) {
+          const check = await erpnext.checkBankTransactionDuplicates(bankAccount, statement.transactions);
+          summary += formatDuplicateCheck(check);
+          toImport = check.rows
+            .filter(row => row.status === 'new' || (row.status === 'likely_duplicate' && importLikelyDuplicates))
+            .map(row => row.transaction);
+        }
+
+        if (preview) {
+          summary += `Preview only - nothing was imported. Call again with preview: false to import ${toImport.length} transaction(s).\n\n`;
+          summary += `Transactions to import:\n${JSON.stringify(toImport, null, 2)}`;
+        } else {
+          const result = await erpnext.importBankTransactions(toImport);
+          summary += `Imported: ${result.success_count}\n`;
+          summary += `Failed: ${result.error_count}\n\n`;
+          summary += `Detailed Results:\n${JSON.stringify(result, null, 2)}`;
+        }
+
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(transactions, null, 2)
+            text: summary
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to search bank transactions: ${error?.message || 'Unknown error'}`
+            text: `Failed to import bank statement: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
       }
     }
 
-    case "batch_import_bank_transactions": {
-      if (!erpnext.isAuthenticated()) {
+    case "categorize_bank_transactions": {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
       }
 
-      const columns = request.params.arguments?.columns as string[] | undefined;
-      const data = request.params.arguments?.data as any[][] | undefined;
+      const rulesArgument = request.params.arguments?.rules_file as string | undefined;
+      const rulesFile = rulesArgument ? await callerFilePath('rules_file', rulesArgument) : process.env.ERPNEXT_RULES_FILE;
       const bankAccount = request.params.arguments?.bank_account as string | undefined;
+      const company = request.params.arguments?.company as string | undefined;
+      const fromDate = request.params.arguments?.from_date as string | undefined;
+      const toDate = request.params.arguments?.to_date as string | undefined;
 
-      if (!columns || !data || !bankAccount) {
+      if (!rulesFile) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "columns, data, and bank_account are required"
+          "rules_file is required when ERPNEXT_RULES_FILE is not set"
         );
       }
 
       try {
-        const result = await erpnext.batchImportBankTransactions(columns, data, bankAccount);
+        const rules = await loadRules(rulesFile);
+        const result = await erpnext.categorizeBankTransactions(rules, bankAccount, company, fromDate, toDate);
+
+        let summary = `Bank Transaction Categorization:\n\n`;
+        summary += `✓ Matched: ${result.matched_count}\n`;
+        summary += `✗ Unmatched: ${result.unmatched_count}\n\n`;
+
+        if (result.drafts.length > 0) {
+          summary += `Draft Journal Entries (not created):\n`;
+          result.drafts.forEach(draft => {
+            // The first line of a generated entry always carries the debit
+            const amount = draft.journal_entry.accounts[0]?.debit_in_account_currency || 0;
+            summary += `  ${draft.bank_transaction} - ${draft.journal_entry.posting_date} - ${amount.toFixed(2)} -> rule "${draft.rule}"\n`;
+          });
+          summary += `\n`;
+        }
+
+        if (result.unmatched.length > 0) {
+          summary += `Unmatched:\n`;
+          result.unmatched.forEach(item => {
+            summary += `  ${item.bank_transaction} - ${item.date} - ${item.direction} ${item.amount.toFixed(2)} - ${item.description}: ${item.reason}\n`;
+          });
+          summary += `\n`;
+        }
+
+        summary += `Review the drafts, then create them with batch_create_journal_entries.\n\n`;
+        summary += `Detailed Results:\n${JSON.stringify(result, null, 2)}`;
+
         return {
           content: [{
             type: "text",
-            text: `Bank transactions imported successfully:\n\n${JSON.stringify(result, null, 2)}`
+            text: summary
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Failed to import bank transactions: ${error?.message || 'Unknown error'}`
+            text: `Failed to categorize bank transactions: ${error?.message || 'Unknown error'}`
           }],
           isError: true
         };
@@ -1800,11 +5913,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     case "validate_journal_entry": {
-      if (!erpnext.isAuthenticated()) {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
@@ -1854,11 +5967,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     case "create_journal_entry": {
-      if (!erpnext.isAuthenticated()) {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
@@ -1867,6 +5980,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const journalEntry = request.params.arguments?.journal_entry as JournalEntry | undefined;
       const skipValidation = request.params.arguments?.skip_validation as boolean | undefined || false;
       const submit = request.params.arguments?.submit as boolean | undefined || false;
+      const dryRun = request.params.arguments?.dry_run as boolean | undefined || false;
+      const rawIdempotencyKey = request.params.arguments?.idempotency_key;
 
       if (!journalEntry) {
         throw new McpError(
@@ -1875,12 +5990,40 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         );
       }
 
+      let idempotencyKey: string | undefined;
+      if (rawIdempotencyKey !== undefined) {
+        try {
+          idempotencyKey = validateIdempotencyKey(rawIdempotencyKey);
+        } catch (error: any) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+      }
+
       try {
-        const result = await erpnext.createJournalEntry(journalEntry, skipValidation);
+        if (dryRun) {
+          const preview = await erpnext.previewJournalEntry(journalEntry);
+          if (submit) {
+            preview.warnings.push('The entry would be submitted (posted) right after creation');
+          }
+          return {
+            content: [{
+              type: "text",
+              text: formatDryRun(preview)
+            }],
+            isError: !preview.is_valid
+          };
+        }
 
-        let message = `Journal Entry created successfully: ${result.name}\n\n`;
+        const existing = idempotencyKey
+          ? await erpnext.findIdempotentDocument('Journal Entry', idempotencyKey)
+          : undefined;
+        const result = existing || await erpnext.createJournalEntry(journalEntry, skipValidation, idempotencyKey);
 
-        if (submit) {
+        let message = existing
+          ? `Journal Entry ${result.name} was already created with idempotency key ${idempotencyKey}; nothing new was created.\n\n`
+          : `Journal Entry created successfully: ${result.name}\n\n`;
+
+        if (submit && result.docstatus !== 1) {
           await erpnext.submitJournalEntry(result.name);
           message += `Journal Entry submitted (posted) successfully.\n\n`;
         }
@@ -1905,11 +6048,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     case "submit_journal_entry": {
-      if (!erpnext.isAuthenticated()) {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
@@ -1944,11 +6087,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     case "batch_create_journal_entries": {
-      if (!erpnext.isAuthenticated()) {
+      if (!(await erpnext.isAuthenticated())) {
         return {
           content: [{
             type: "text",
-            text: "Not authenticated with ERPNext. Please configure API key authentication."
+            text: "Not authenticated with ERPNext. Please configure API key authentication or log in with authenticate_erpnext."
           }],
           isError: true
         };
@@ -1957,6 +6100,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const entries = request.params.arguments?.entries as JournalEntry[] | undefined;
       const autoSubmit = (request.params.arguments?.auto_submit as boolean | undefined) || false;
       const stopOnError = (request.params.arguments?.stop_on_error as boolean | undefined) || false;
+      const dryRun = (request.params.arguments?.dry_run as boolean | undefined) || false;
+      const atomic = (request.params.arguments?.atomic as boolean | undefined) || false;
 
       if (!entries || entries.length === 0) {
         throw new McpError(
@@ -1965,8 +6110,58 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         );
       }
 
+      const seenKeys = new Set<string>();
+      for (let index = 0; index < entries.length; index++) {
+        if (entries[index].idempotency_key === undefined) {
+          continue;
+        }
+        let key: string;
+        try {
+          key = validateIdempotencyKey(entries[index].idempotency_key);
+        } catch (error: any) {
+          throw new McpError(ErrorCode.InvalidParams, `Entry ${index}: ${error.message}`);
+        }
+        if (seenKeys.has(key)) {
+          throw new McpError(ErrorCode.InvalidParams, `Entry ${index}: idempotency_key ${key} is used more than once in this batch`);
+        }
+        seenKeys.add(key);
+        entries[index] = { ...entries[index], idempotency_key: key };
+      }
+
       try {
-        const result = await erpnext.batchCreateJournalEntries(entries, autoSubmit, stopOnError);
+        if (dryRun) {
+          const previews = [];
+          for (const { idempotency_key, ...entry } of entries) {
+            previews.push(await erpnext.previewJournalEntry(entry));
+          }
+          const invalid = previews.filter(preview => !preview.is_valid).length;
+
+          let summary = `DRY RUN - nothing was created.\n\n`;
+          summary += `Batch Journal Entry Preview (${entries.length} entries, ${autoSubmit ? 'would be submitted' : 'would stay as drafts'}):\n`;
+          summary += `✓ Valid: ${entries.length - invalid}\n`;
+          summary += `✗ Invalid: ${invalid}\n\n`;
+          previews.forEach((preview, index) => {
+            const status = preview.is_valid ? 'OK' : 'INVALID';
+            summary += `  [${index}] ${status} - ${entries[index].posting_date} - Debit: ${preview.validation.total_debit.toFixed(2)}, Credit: ${preview.validation.total_credit.toFixed(2)}\n`;
+            preview.errors.forEach(error => {
+              summary += `    Error: ${error}\n`;
+            });
+            preview.warnings.forEach(warning => {
+              summary += `    Warning: ${warning}\n`;
+            });
+          });
+          summary += `\nDetailed Results:\n${JSON.stringify(previews, null, 2)}`;
+
+          return {
+            content: [{
+              type: "text",
+              text: summary
+            }],
+            isError: invalid > 0
+          };
+        }
+
+        const result = await erpnext.batchCreateJournalEntries(entries, autoSubmit, stopOnError, atomic);
 
         // Build a formatted summary
         let summary = `Batch Journal Entry Creation Complete:\n\n`;
@@ -1977,7 +6172,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           summary += `Created Entries:\n`;
           result.created_entries.forEach(entry => {
             const status = entry.submitted ? '(Submitted)' : '(Draft)';
-            summary += `  [${entry.index}] ${entry.name} - ${entry.posting_date} - Debit: ${entry.total_debit.toFixed(2)}, Credit: ${entry.total_credit.toFixed(2)} ${status}\n`;
+            const replay = entry.replayed ? ' (already created - idempotency key)' : '';
+            summary += `  [${entry.index}] ${entry.name} - ${entry.posting_date} - Debit: ${entry.total_debit.toFixed(2)}, Credit: ${entry.total_credit.toFixed(2)} ${status}${replay}\n`;
           });
           summary += `\n`;
         }
@@ -1993,6 +6189,20 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           summary += `\n`;
         }
 
+        if (result.stopped_at !== undefined) {
+          summary += atomic && !result.rollback
+            ? `Atomic batch aborted before any entry was created (first failure at entry ${result.stopped_at})\n\n`
+            : `Stopped at entry ${result.stopped_at}\n\n`;
+        }
+
+        if (result.rollback) {
+          summary += `Rollback (${result.rollback.complete ? 'complete' : 'INCOMPLETE - manual cleanup needed'}):\n`;
+          result.rollback.actions.forEach(action => {
+            summary += `  [${action.index}] ${action.name} ${action.success ? action.action : `could not be ${action.action}: ${action.error}`}\n`;
+          });
+          summary += `\n`;
+        }
+
         summary += `\nDetailed Results:\n${JSON.stringify(result, null, 2)}`;
 
         return {
@@ -2000,7 +6210,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             type: "text",
             text: summary
           }],
-          isError: result.error_count > 0 && stopOnError
+          isError: result.error_count > 0 && (stopOnError || atomic)
         };
       } catch (error: any) {
         return {
@@ -2019,14 +6229,48 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         `Unknown tool: ${request.params.name}`
       );
   }
-});
+}
 
 /**
- * Start the server using stdio transport.
+ * Start the server using stdio transport, or streamable HTTP when selected.
  */
 async function main() {
+  siteConfig = await loadSiteConfig();
+  policy = await loadPolicy();
+  dryRuns = new DryRunTracker(policy.dry_run_ttl_minutes);
+  const auditPath = auditLogPath();
+  if (auditPath) {
+    auditLog = new AuditLog(auditPath);
+  }
+  const ledgerPath = process.env.ERPNEXT_IDEMPOTENCY_LEDGER;
+  if (ledgerPath) {
+    idempotencyLedger = new IdempotencyLedger(ledgerPath);
+  }
+
+  if (selectedTransport() === 'http') {
+    const options = httpOptions();
+    httpMode = true;
+    httpFileDir = options.file_dir;
+    const http = await startHttpServer(createServer, options);
+    console.error(`ERPNext MCP server listening on ${http.url}`);
+
+    // Finish open requests and close sessions before exiting; a second signal exits at once
+    let stopping = false;
+    const shutdown = (signal: string) => {
+      if (stopping) {
+        process.exit(1);
+      }
+      stopping = true;
+      console.error(`Received ${signal}, shutting down`);
+      http.close().then(() => process.exit(0), () => process.exit(1));
+    };
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error('ERPNext MCP server running on stdio');
 }
 
@@ -0,0 +1,112 @@
+/**
+ * List query utilities (paging, sorting, continuation cursors) for ERPNext MCP Server
+ */
+
+import { ListPageOptions } from './types.js';
+
+interface CursorState {
+  start: number;
+  limit: number;
+  order_by?: string;
+}
+
+/**
+ * JSON schema properties shared by every tool that returns a page of documents
+ */
+export const PAGINATION_SCHEMA_PROPERTIES = {
+  limit: {
+    type: "number",
+    description: "Maximum number of rows to return; 0 returns every matching row (optional)"
+  },
+  offset: {
+    type: "number",
+    description: "Number of rows to skip before the first returned row (optional, defaults to 0)"
+  },
+  cursor: {
+    type: "string",
+    description: "Continuation token from a previous response's next_cursor; continues with the same page size and sort order (optional)"
+  },
+  order_by: {
+    type: "string",
+    description: "Sort order, e.g. 'posting_date desc' or 'posting_date desc, name asc' (optional)"
+  },
+  with_total: {
+    type: "boolean",
+    description: "Also return the total number of matching rows (optional, defaults to false)"
+  }
+};
+
+/**
+ * Encode the position of the next page as an opaque continuation token
+ */
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a continuation token produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof state.start !== 'number' || state.start < 0 || typeof state.limit !== 'number') {
+      throw new Error('missing position');
+    }
+    return state;
+  } catch (error: any) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+}
+
+/**
+ * Validate an order_by clause ("field [asc|desc], ...") before it is sent to ERPNext
+ */
+export function validateOrderBy(orderBy: string): string {
+  const parts = orderBy.split(',').map(part => part.trim());
+
+  for (const part of parts) {
+    if (!/^`?[A-Za-z_][A-Za-z0-9_]*`?(\.`?[A-Za-z_][A-Za-z0-9_]*`?)?(\s+(asc|desc))?$/i.test(part)) {
+      throw new Error(`Invalid order_by clause: ${part}`);
+    }
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * Resolve page options (explicit start/limit or a cursor) into a concrete position
+ */
+export function resolvePage(page: ListPageOptions, defaultLimit: number): CursorState {
+  const fromCursor = page.cursor ? decodeCursor(page.cursor) : undefined;
+
+  const limit = page.limit ?? fromCursor?.limit ?? defaultLimit;
+  const start = fromCursor ? fromCursor.start : (page.start ?? 0);
+  const orderBy = page.order_by ?? fromCursor?.order_by;
+
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`Invalid limit: ${limit}`);
+  }
+
+  if (!Number.isInteger(start) || start < 0) {
+    throw new Error(`Invalid offset: ${start}`);
+  }
+
+  return {
+    start,
+    limit,
+    order_by: orderBy ? validateOrderBy(orderBy) : undefined
+  };
+}
+
+/**
+ * Read the shared paging arguments from a tool call
+ */
+export function parsePageArguments(args: Record<string, unknown> | undefined): ListPageOptions {
+  return {
+    limit: args?.limit as number | undefined,
+    start: args?.offset as number | undefined,
+    cursor: args?.cursor as string | undefined,
+    order_by: args?.order_by as string | undefined,
+    with_total: args?.with_total as boolean | undefined
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * OAuth2 bearer token support for ERPNext MCP Server
+ *
+ * Implements Frappe's authorization-code flow (with PKCE) and refresh-token flow
+ * against frappe.integrations.oauth2, keeping tokens in a local JSON file.
+ */
+
+import axios from 'axios';
+import { createHash, randomBytes } from 'crypto';
+import { chmod, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { OAuthConfig, OAuthToken } from './types.js';
+import { FrappeError, parseFrappeError } from './frappe-errors.js';
+
+const AUTHORIZE_PATH = '/api/method/frappe.integrations.oauth2.authorize';
+const TOKEN_PATH = '/api/method/frappe.integrations.oauth2.get_token';
+const REVOKE_PATH = '/api/method/frappe.integrations.oauth2.revoke_token';
+
+// Refresh this long before the token actually expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Default token file for a site: ~/.erpnext-mcp/oauth-<site>.json
+ */
+export function defaultTokenFile(site: string): string {
+  return join(homedir(), '.erpnext-mcp', `oauth-${site.replace(/[^\w.-]/g, '_')}.json`);
+}
+
+/**
+ * Pull the authorization code (and state) out of a redirect URL, or accept a bare code
+ */
+export function parseAuthorizationResponse(input: string): { code: string; state?: string } {
+  const trimmed = input.trim();
+  if (!/^https?:\/\//i.test(trimmed)) {
+    return { code: trimmed };
+  }
+
+  const params = new URL(trimmed).searchParams;
+  const error = params.get('error');
+  if (error) {
+    throw new Error(`Authorization was denied: ${params.get('error_description') || error}`);
+  }
+  const code = params.get('code');
+  if (!code) {
+    throw new Error('The redirect URL has no code parameter');
+  }
+  return { code, state: params.get('state') ?? undefined };
+}
+
+/**
+ * OAuth2 client for one ERPNext site
+ */
+export class OAuthClient {
+  private token?: OAuthToken;
+  private loaded = false;
+  private pending = new Map<string, string>(); // state -> PKCE code verifier
+  private refreshing?: Promise<OAuthToken>;
+  private rejectedRefreshToken?: string; // refresh token the server turned down
+  private tokenFile: string;
+
+  constructor(private baseUrl: string, private config: OAuthConfig, site: string) {
+    this.tokenFile = config.token_file || defaultTokenFile(site);
+  }
+
+  /**
+   * Start the authorization-code flow: the URL the user opens to approve access
+   */
+  authorizationUrl(): { url: string; state: string } {
+    const state = randomBytes(16).toString('base64url');
+    const verifier = randomBytes(32).toString('base64url');
+    this.pending.set(state, verifier);
+
+    const params = new URLSearchParams({
+      client_id: this.config.client_id,
+      response_type: 'code',
+      redirect_uri: this.config.redirect_uri,
+      scope: this.config.scope || 'all openid',
+      state,
+      code_challenge: createHash('sha256').update(verifier).digest('base64url'),
+      code_challenge_method: 'S256'
+    });
+
+    return { url: `${this.baseUrl}${AUTHORIZE_PATH}?${params.toString()}`, state };
+  }
+
+  /**
+   * Finish the authorization-code flow by exchanging the code for tokens
+   */
+  async exchangeCode(code: string, state?: string): Promise<OAuthToken> {
+    let verifier: string | undefined;
+    if (state !== undefined) {
+      verifier = this.pending.get(state);
+      if (!verifier) {
+        throw new Error('Unknown or already used OAuth state; start the login again');
+      }
+      this.pending.delete(state);
+    } else if (this.pending.size === 1) {
+      // A bare code can only belong to the one login in progress
+      const [onlyState, onlyVerifier] = [...this.pending.entries()][0];
+      verifier = onlyVerifier;
+      this.pending.delete(onlyState);
+    }
+
+    const body: Record<string, string> = {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirect_uri
+    };
+    if (verifier) {
+      body.code_verifier = verifier;
+    }
+    return this.requestToken(body);
+  }
+
+  /**
+   * A usable access token, refreshed first when it has expired or is about to
+   */
+  async getAccessToken(): Promise<string | undefined> {
+    const token = await this.loadToken();
+    if (!token) {
+      return undefined;
+    }
+    if (token.expires_at - EXPIRY_MARGIN_MS > Date.now()) {
+      return token.access_token;
+    }
+    if (!token.refresh_token || token.refresh_token === this.rejectedRefreshToken) {
+      return undefined;
+    }
+    return (await this.refresh()).access_token;
+  }
+
+  /**
+   * Get a new access token with the refresh token; concurrent callers share one refresh.
+   * A refresh token the server rejects is not sent again until a new login replaces it.
+   */
+  refresh(): Promise<OAuthToken> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        const token = await this.loadToken();
+        if (!token?.refresh_token) {
+          throw new Error('No OAuth refresh token; log in again');
+        }
+        if (token.refresh_token === this.rejectedRefreshToken) {
+          throw new Error('The OAuth refresh token was rejected; log in again');
+        }
+        try {
+          return await this.requestToken({
+            grant_type: 'refresh_token',
+            refresh_token: token.refresh_token
+          }, token.refresh_token);
+        } catch (error) {
+          const status = error instanceof FrappeError ? error.status : undefined;
+          if (status !== undefined && status >= 400 && status < 500) {
+            this.rejectedRefreshToken = token.refresh_token;
+          }
+          throw error;
+        }
+      })().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Revoke the token on the server and delete it locally
+   */
+  async revoke(): Promise<boolean> {
+    const token = await this.loadToken();
+    if (!token) {
+      return false;
+    }
+    try {
+      await axios.post(`${this.baseUrl}${REVOKE_PATH}`, new URLSearchParams({ token: token.refresh_token || token.access_token }));
+    } catch (error) {
+      // Forget the token locally even if the server could not revoke it
+    }
+    this.token = undefined;
+    await this.saveToken(undefined);
+    return true;
+  }
+
+  /**
+   * Stored token details without the secrets
+   */
+  async describe(): Promise<{ expires_at: string; scope?: string; has_refresh_token: boolean } | undefined> {
+    const token = await this.loadToken();
+    if (!token) {
+      return undefined;
+    }
+    return {
+      expires_at: new Date(token.expires_at).toISOString(),
+      scope: token.scope,
+      has_refresh_token: !!token.refresh_token
+    };
+  }
+
+  private async requestToken(body: Record<string, string>, previousRefreshToken?: string): Promise<OAuthToken> {
+    const params = new URLSearchParams({ ...body, client_id: this.config.client_id });
+    if (this.config.client_secret) {
+      params.set('client_secret', this.config.client_secret);
+    }
+
+    let data: any;
+    try {
+      const response = await axios.post(`${this.baseUrl}${TOKEN_PATH}`, params, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' }
+      });
+      data = response.data;
+    } catch (error: any) {
+      throw parseFrappeError(error).withContext('OAuth token request failed');
+    }
+
+    if (!data?.access_token) {
+      throw new Error('OAuth token response has no access_token');
+    }
+
+    const token: OAuthToken = {
+      access_token: data.access_token,
+      // Frappe keeps the refresh token unless it issues a new one
+      refresh_token: data.refresh_token || previousRefreshToken,
+      expires_at: Date.now() + (Number(data.expires_in) || 3600) * 1000,
+      scope: data.scope
+    };
+    this.token = token;
+    await this.saveToken(token);
+    return token;
+  }
+
+  private async loadToken(): Promise<OAuthToken | undefined> {
+    if (!this.loaded) {
+      try {
+        const raw = JSON.parse(await readFile(this.tokenFile, 'utf8'));
+        this.token = raw?.access_token ? raw : undefined;
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          throw new Error(`Failed to read OAuth token file ${this.tokenFile}: ${error?.message || 'Unknown error'}`);
+        }
+      }
+      this.loaded = true;
+    }
+    return this.token;
+  }
+
+  // Tokens are written owner-only, through a temporary file
+  private async saveToken(token: OAuthToken | undefined): Promise<void> {
+    const tmpPath = `${this.tokenFile}.tmp`;
+    await mkdir(dirname(this.tokenFile), { recursive: true, mode: 0o700 });
+    await writeFile(tmpPath, JSON.stringify(token ?? {}, null, 2), { encoding: 'utf8', mode: 0o600 });
+    await chmod(tmpPath, 0o600);
+    await rename(tmpPath, this.tokenFile);
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Reporting period resolution for ERPNext MCP Server
+ *
+ * Periods are worked out from the company's Fiscal Year records, so fiscal years
+ * that do not follow the calendar (e.g. July-June), and short or long years, give
+ * the right year-to-date and quarter boundaries. Dates are YYYY-MM-DD strings.
+ */
+
+import { FiscalYear, PeriodPreset, PeriodRange, PeriodSpec, ReportingPeriod } from './types.js';
+
+export const PERIOD_PRESETS: PeriodPreset[] = [
+  'this_month',
+  'last_month',
+  'this_quarter',
+  'last_quarter',
+  'ytd',
+  'this_fiscal_year',
+  'prior_fiscal_year'
+];
+
+/**
+ * Check a YYYY-MM-DD date
+ */
+export function validateDate(value: string, label: string = 'date'): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(`${value}T00:00:00Z`)) ||
+      new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) !== value) {
+    throw new Error(`${label} must be a date in YYYY-MM-DD format, got ${value}`);
+  }
+  return value;
+}
+
+export function addDays(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+// Same day of the month n months later, clamped to the end of shorter months
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+function monthStart(date: string): string {
+  return `${date.slice(0, 8)}01`;
+}
+
+/**
+ * The fiscal years that apply to a company: its own, plus those shared by every
+ * company, with its own taking precedence where they overlap
+ */
+export function fiscalYearsForCompany(fiscalYears: FiscalYear[], company: string): FiscalYear[] {
+  const own = fiscalYears.filter(year => year.companies.includes(company));
+  const shared = fiscalYears.filter(year => year.companies.length === 0 &&
+    !own.some(ownYear => ownYear.year_start_date <= year.year_end_date && year.year_start_date <= ownYear.year_end_date));
+  return [...own, ...shared].sort((a, b) => a.year_start_date.localeCompare(b.year_start_date));
+}
+
+/**
+ * The fiscal year containing a date
+ */
+export function fiscalYearOf(date: string, fiscalYears: FiscalYear[]): FiscalYear {
+  const year = fiscalYears.find(candidate => candidate.year_start_date <= date && date <= candidate.year_end_date);
+  if (!year) {
+    throw new Error(`No Fiscal Year covers ${date}; create one in ERPNext or pass from_date and to_date within an existing year`);
+  }
+  return year;
+}
+
+/**
+ * Quarters of a fiscal year: three-month blocks from its start, the last one
+ * stretched or cut to the year end for long and short years
+ */
+export function fiscalQuarters(year: FiscalYear): { from_date: string; to_date: string }[] {
+  const quarters: { from_date: string; to_date: string }[] = [];
+  let start = year.year_start_date;
+  while (start <= year.year_end_date) {
+    let end = addDays(addMonths(year.year_start_date, (quarters.length + 1) * 3), -1);
+    // Fold a stub of less than a month into the quarter before it
+    if (addMonths(end, 1) >= year.year_end_date) {
+      end = year.year_end_date;
+    }
+    quarters.push({ from_date: start, to_date: end });
+    start = addDays(end, 1);
+  }
+  return quarters;
+}
+
+/**
+ * Resolve explicit dates or a preset into a date range. Presets ending in the
+ * current period ("this_month", "this_quarter", "ytd") run up to the anchor date;
+ * the others cover whole periods. Without dates or a preset the period is fiscal
+ * year to date. Explicit dates need no Fiscal Year.
+ */
+export function resolvePeriodRange(spec: PeriodSpec, fiscalYears: FiscalYear[], today: string): PeriodRange {
+  const anchor = validateDate(spec.as_of_date || today, 'as_of_date');
+  const period = spec.period ?? (spec.from_date || spec.to_date ? undefined : 'ytd');
+
+  let from: string;
+  let to: string;
+  let label: string;
+
+  if (period && (spec.from_date || spec.to_date)) {
+    throw new Error('Pass either a period preset or from_date/to_date, not both');
+  }
+
+  if (!period) {
+    to = validateDate(spec.to_date || anchor, 'to_date');
+    from = spec.from_date ? validateDate(spec.from_date, 'from_date') : fiscalYearOf(to, fiscalYears).year_start_date;
+    label = `${from} to ${to}`;
+  } else {
+    const year = fiscalYearOf(anchor, fiscalYears);
+    const quarters = fiscalQuarters(year);
+    const quarterIndex = quarters.findIndex(quarter => quarter.from_date <= anchor && anchor <= quarter.to_date);
+
+    switch (period) {
+      case 'this_month':
+        from = monthStart(anchor);
+        to = anchor;
+        label = `Month to date ${anchor.slice(0, 7)}`;
+        break;
+      case 'last_month':
+        from = addMonths(monthStart(anchor), -1);
+        to = addDays(monthStart(anchor), -1);
+        label = `Month ${from.slice(0, 7)}`;
+        break;
+      case 'this_quarter':
+        from = quarters[quarterIndex].from_date;
+        to = anchor;
+        label = `${year.name} Q${quarterIndex + 1} to date`;
+        break;
+      case 'last_quarter': {
+        if (quarterIndex > 0) {
+          ({ from_date: from, to_date: to } = quarters[quarterIndex - 1]);
+          label = `${year.name} Q${quarterIndex}`;
+        } else {
+          const priorYear = fiscalYearOf(addDays(year.year_start_date, -1), fiscalYears);
+          const priorQuarters = fiscalQuarters(priorYear);
+          ({ from_date: from, to_date: to } = priorQuarters[priorQuarters.length - 1]);
+          label = `${priorYear.name} Q${priorQuarters.length}`;
+        }
+        break;
+      }
+      case 'ytd':
+        from = year.year_start_date;
+        to = anchor;
+        label = `${year.name} year to date`;
+        break;
+      case 'this_fiscal_year':
+        from = year.year_start_date;
+        to = year.year_end_date;
+        label = `Fiscal year ${year.name}`;
+        break;
+      case 'prior_fiscal_year': {
+        const priorYear = fiscalYearOf(addDays(year.year_start_date, -1), fiscalYears);
+        from = priorYear.year_start_date;
+        to = priorYear.year_end_date;
+        label = `Fiscal year ${priorYear.name}`;
+        break;
+      }
+      default:
+        throw new Error(`Unknown period: ${period}. Expected one of ${PERIOD_PRESETS.join(', ')}`);
+    }
+  }
+
+  if (from > to) {
+    throw new Error(`from_date ${from} is after to_date ${to}`);
+  }
+
+  return { from_date: from, to_date: to, label };
+}
+
+/**
+ * Resolve a reporting period together with the fiscal year containing its end,
+ * for reports that run within a fiscal year
+ */
+export function resolvePeriod(spec: PeriodSpec, fiscalYears: FiscalYear[], today: string): ReportingPeriod {
+  const range = resolvePeriodRange(spec, fiscalYears, today);
+  const year = fiscalYearOf(range.to_date, fiscalYears);
+  return {
+    ...range,
+    fiscal_year: year.name,
+    fiscal_year_start: year.year_start_date,
+    fiscal_year_end: year.year_end_date
+  };
+}
+
+/**
+ * Days in a period, both ends included
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (1000 * 60 * 60 * 24)) + 1;
+}
+
+/**
+ * The period of the same length just before this one: whole months are shifted
+ * by months (so a quarter compares with the previous quarter), anything else by days
+ */
+export function priorPeriod(from: string, to: string): { from_date: string; to_date: string } {
+  const endsOnMonthEnd = addDays(to, 1).endsWith('-01');
+  if (from.endsWith('-01') && endsOnMonthEnd) {
+    const months = (Number(to.slice(0, 4)) - Number(from.slice(0, 4))) * 12 + Number(to.slice(5, 7)) - Number(from.slice(5, 7)) + 1;
+    return { from_date: addMonths(from, -months), to_date: addDays(from, -1) };
+  }
+  const days = daysBetween(from, to);
+  return { from_date: addDays(from, -days), to_date: addDays(from, -1) };
+}
+
+/**
+ * The same dates one year earlier (a month end stays a month end)
+ */
+export function priorYearPeriod(from: string, to: string): { from_date: string; to_date: string } {
+  const shiftedTo = addMonths(to, -12);
+  return {
+    from_date: addMonths(from, -12),
+    to_date: addDays(to, 1).endsWith('-01') ? addDays(addMonths(addDays(to, 1), -12), -1) : shiftedTo
+  };
+}
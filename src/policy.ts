@@ -0,0 +1,331 @@
+/**
+ * Access policy for ERPNext MCP Server
+ *
+ * Loaded from the JSON or YAML file named by ERPNEXT_POLICY_FILE:
+ *
+ *   read_only: false
+ *   tools:
+ *     deny: [delete_document]
+ *   doctypes:
+ *     deny: [User, System Settings]
+ *   max_journal_entry_amount: 10000
+ *   require_dry_run: [create_document, update_document]
+ *
+ * Without a file every tool and doctype is allowed.
+ */
+
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import { AllowDenyList, JournalEntry, Policy } from './types.js';
+
+export const DEFAULT_POLICY: Policy = {
+  read_only: false,
+  tools: { deny: [] },
+  doctypes: { deny: [] },
+  require_dry_run: [],
+  dry_run_ttl_minutes: 30
+};
+
+/**
+ * Tools that change data in ERPNext
+ */
+export const WRITE_TOOLS = new Set([
+  'create_document',
+  'update_document',
+  'submit_document',
+  'cancel_document',
+  'amend_document',
+  'delete_document',
+  'reconcile_bank_transaction',
+  'batch_import_bank_transactions',
+  'import_bank_statement',
+  'create_journal_entry',
+  'submit_journal_entry',
+  'batch_create_journal_entries'
+]);
+
+// Write tools that can also run as a preview (dry_run: true, or preview for import_bank_statement)
+const PREVIEWABLE_TOOLS = new Set([
+  'create_document',
+  'update_document',
+  'batch_import_bank_transactions',
+  'import_bank_statement',
+  'create_journal_entry',
+  'batch_create_journal_entries'
+]);
+
+// Doctype touched by tools that do not take a doctype argument
+const TOOL_DOCTYPES: Record<string, string> = {
+  search_bank_transactions: 'Bank Transaction',
+  suggest_reconciliation_matches: 'Bank Transaction',
+  reconcile_bank_transaction: 'Bank Transaction',
+  batch_import_bank_transactions: 'Bank Transaction',
+  import_bank_statement: 'Bank Transaction',
+  categorize_bank_transactions: 'Bank Transaction',
+  get_bank_accounts: 'Bank Account',
+  validate_journal_entry: 'Journal Entry',
+  create_journal_entry: 'Journal Entry',
+  submit_journal_entry: 'Journal Entry',
+  batch_create_journal_entries: 'Journal Entry',
+  get_general_ledger: 'GL Entry',
+  get_consolidated_report: 'GL Entry',
+  get_trial_balance: 'GL Entry',
+  get_account_balance: 'GL Entry',
+  get_balance_sheet: 'GL Entry',
+  get_profit_and_loss: 'GL Entry',
+  get_cash_flow: 'GL Entry',
+  get_companies: 'Company',
+  get_account_tree: 'Account',
+  search_accounts: 'Account',
+  list_accounts_by_type: 'Account'
+};
+
+/**
+ * A call rejected by the policy
+ */
+export class PolicyError extends Error {
+  constructor(message: string, public rule: string) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+function parseList(raw: unknown, label: string): AllowDenyList {
+  if (raw === undefined) {
+    return { deny: [] };
+  }
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${label} must be an object with allow and/or deny lists`);
+  }
+
+  const isNames = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+  const { allow, deny } = raw as Record<string, unknown>;
+  if (allow !== undefined && !isNames(allow)) {
+    throw new Error(`${label}.allow must be a list of names`);
+  }
+  if (deny !== undefined && !isNames(deny)) {
+    throw new Error(`${label}.deny must be a list of names`);
+  }
+
+  return { allow: allow as string[] | undefined, deny: (deny as string[] | undefined) || [] };
+}
+
+/**
+ * Validate a parsed policy file, filling in defaults
+ */
+export function parsePolicy(raw: unknown): Policy {
+  if (raw === null || raw === undefined) {
+    return DEFAULT_POLICY;
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Policy file must contain an object');
+  }
+  const entry = raw as Record<string, any>;
+
+  if (entry.read_only !== undefined && typeof entry.read_only !== 'boolean') {
+    throw new Error('read_only must be true or false');
+  }
+  if (entry.max_journal_entry_amount !== undefined &&
+      (typeof entry.max_journal_entry_amount !== 'number' || entry.max_journal_entry_amount < 0)) {
+    throw new Error('max_journal_entry_amount must be a non-negative number');
+  }
+  if (entry.dry_run_ttl_minutes !== undefined &&
+      (typeof entry.dry_run_ttl_minutes !== 'number' || entry.dry_run_ttl_minutes <= 0)) {
+    throw new Error('dry_run_ttl_minutes must be a positive number');
+  }
+
+  // require_dry_run: true covers every write tool that supports a dry run
+  let requireDryRun: string[] = [];
+  if (entry.require_dry_run === true) {
+    requireDryRun = [...PREVIEWABLE_TOOLS];
+  } else if (Array.isArray(entry.require_dry_run)) {
+    for (const tool of entry.require_dry_run) {
+      if (!PREVIEWABLE_TOOLS.has(tool)) {
+        throw new Error(`require_dry_run: ${tool} has no dry run mode`);
+      }
+    }
+    requireDryRun = entry.require_dry_run;
+  } else if (entry.require_dry_run !== undefined && entry.require_dry_run !== false) {
+    throw new Error('require_dry_run must be true, false or a list of tools');
+  }
+
+  return {
+    read_only: entry.read_only ?? false,
+    tools: parseList(entry.tools, 'tools'),
+    doctypes: parseList(entry.doctypes, 'doctypes'),
+    max_journal_entry_amount: entry.max_journal_entry_amount,
+    require_dry_run: requireDryRun,
+    dry_run_ttl_minutes: entry.dry_run_ttl_minutes ?? DEFAULT_POLICY.dry_run_ttl_minutes
+  };
+}
+
+/**
+ * Load the policy from ERPNEXT_POLICY_FILE, or allow everything
+ */
+export async function loadPolicy(): Promise<Policy> {
+  const filePath = process.env.ERPNEXT_POLICY_FILE;
+  if (!filePath) {
+    return DEFAULT_POLICY;
+  }
+  const text = await readFile(filePath, 'utf8');
+  return parsePolicy(/\.json$/i.test(filePath) ? JSON.parse(text) : parseYaml(text));
+}
+
+function permitted(list: AllowDenyList, name: string): boolean {
+  if (list.deny.includes(name)) {
+    return false;
+  }
+  return !list.allow || list.allow.includes(name);
+}
+
+/**
+ * Whether a call only previews a write
+ */
+export function isDryRunCall(tool: string, args: Record<string, unknown>): boolean {
+  if (tool === 'import_bank_statement') {
+    return args.preview !== false;
+  }
+  return PREVIEWABLE_TOOLS.has(tool) && args.dry_run === true;
+}
+
+/**
+ * Whether ListTools should show a tool: hidden when denied, or when read-only
+ * mode leaves it nothing to do
+ */
+export function isToolVisible(policy: Policy, tool: string): boolean {
+  if (!permitted(policy.tools, tool)) {
+    return false;
+  }
+  return !(policy.read_only && WRITE_TOOLS.has(tool) && !PREVIEWABLE_TOOLS.has(tool));
+}
+
+/**
+ * Whether a doctype may be accessed at all
+ */
+export function checkDoctype(policy: Policy, doctype: string): void {
+  if (!permitted(policy.doctypes, doctype)) {
+    throw new PolicyError(`Access to doctype ${doctype} is not allowed by policy`, 'doctypes');
+  }
+}
+
+// A line may set debit, debit_in_account_currency or both; count whichever is larger
+function journalEntryTotal(entry: Partial<JournalEntry> | undefined): number {
+  return (entry?.accounts || []).reduce((sum, line: any) => sum + Math.max(
+    Number(line?.debit_in_account_currency) || 0,
+    Number(line?.debit) || 0
+  ), 0);
+}
+
+/**
+ * Reject a tool call the policy does not permit
+ */
+export function checkToolCall(policy: Policy, tool: string, args: Record<string, unknown>): void {
+  if (!permitted(policy.tools, tool)) {
+    throw new PolicyError(`Tool ${tool} is not allowed by policy`, 'tools');
+  }
+
+  const dryRun = isDryRunCall(tool, args);
+  if (policy.read_only && WRITE_TOOLS.has(tool) && !dryRun) {
+    const hint = PREVIEWABLE_TOOLS.has(tool) ? '; only dry runs are allowed' : '';
+    throw new PolicyError(`The server is in read-only mode${hint}`, 'read_only');
+  }
+
+  const doctype = typeof args.doctype === 'string' ? args.doctype : TOOL_DOCTYPES[tool];
+  if (doctype) {
+    checkDoctype(policy, doctype);
+  }
+
+  if (policy.max_journal_entry_amount !== undefined) {
+    const entries: Partial<JournalEntry>[] = [];
+    if (tool === 'create_journal_entry') {
+      entries.push(args.journal_entry as Partial<JournalEntry>);
+    } else if (tool === 'batch_create_journal_entries' && Array.isArray(args.entries)) {
+      entries.push(...(args.entries as Partial<JournalEntry>[]));
+    } else if (['create_document', 'update_document', 'amend_document'].includes(tool) && args.doctype === 'Journal Entry') {
+      entries.push(args.data as Partial<JournalEntry>);
+    }
+
+    entries.forEach((entry, index) => {
+      checkJournalEntryAmount(policy, entry, entries.length > 1 ? `Entry ${index}` : 'The journal entry');
+    });
+  }
+}
+
+/**
+ * Reject a journal entry whose total is above max_journal_entry_amount
+ */
+export function checkJournalEntryAmount(policy: Policy, entry: Partial<JournalEntry> | undefined, label: string): void {
+  if (policy.max_journal_entry_amount === undefined) {
+    return;
+  }
+  const total = journalEntryTotal(entry);
+  if (total > policy.max_journal_entry_amount) {
+    throw new PolicyError(
+      `${label} totals ${total.toFixed(2)}, above the policy maximum of ${policy.max_journal_entry_amount.toFixed(2)}`,
+      'max_journal_entry_amount'
+    );
+  }
+}
+
+/**
+ * The stored Journal Entry a call posts without passing its lines (a submit, or an
+ * amendment that keeps the cancelled entry's lines), when the amount cap applies.
+ * The caller loads it and checks it with checkJournalEntryAmount.
+ */
+export function storedJournalEntryName(policy: Policy, tool: string, args: Record<string, unknown>): string | undefined {
+  if (policy.max_journal_entry_amount === undefined) {
+    return undefined;
+  }
+  if (tool === 'submit_journal_entry') {
+    return typeof args.journal_entry_name === 'string' ? args.journal_entry_name : undefined;
+  }
+  if (args.doctype !== 'Journal Entry' || typeof args.name !== 'string') {
+    return undefined;
+  }
+  if (tool === 'submit_document') {
+    return args.name;
+  }
+  if (tool === 'amend_document' && !Array.isArray((args.data as Partial<JournalEntry> | undefined)?.accounts)) {
+    return args.name;
+  }
+  return undefined;
+}
+
+/**
+ * Fingerprint of a call for matching a real call with its dry run (preview flags ignored).
+ * Over HTTP the MCP session is part of it, so one session's dry run never authorizes another's call.
+ */
+export function callFingerprint(site: string, tool: string, args: Record<string, unknown>, sessionId: string = ''): string {
+  const { dry_run, preview, ...rest } = args;
+  const canonical = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(canonical);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical(value[key])]));
+    }
+    return value;
+  };
+  return createHash('sha256').update(JSON.stringify([site, sessionId, tool, canonical(rest)])).digest('hex');
+}
+
+/**
+ * Remembers successful dry runs so a require_dry_run tool can check for one.
+ * Each dry run authorizes a single real call.
+ */
+export class DryRunTracker {
+  private seen = new Map<string, number>();
+
+  constructor(private ttlMinutes: number) {}
+
+  record(fingerprint: string): void {
+    this.seen.set(fingerprint, Date.now());
+  }
+
+  consume(fingerprint: string): boolean {
+    const at = this.seen.get(fingerprint);
+    this.seen.delete(fingerprint);
+    return at !== undefined && Date.now() - at <= this.ttlMinutes * 60 * 1000;
+  }
+}
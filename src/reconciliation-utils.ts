@@ -0,0 +1,214 @@
+/**
+ * Bank reconciliation matching utilities for ERPNext MCP Server
+ */
+
+import {
+  BankTransaction,
+  MatchingOptions,
+  ReconciliationCandidate,
+  ReconciliationMatch,
+  ReconciliationSuggestion
+} from './types.js';
+
+export const DEFAULT_MATCHING_OPTIONS: MatchingOptions = {
+  date_window_days: 7,
+  invoice_lookback_days: 90,
+  amount_tolerance: 0.01,
+  min_score: 30,
+  max_matches: 5
+};
+
+// Maximum points for each signal; a perfect match scores 100
+const AMOUNT_POINTS = 40;
+const DATE_POINTS = 20;
+const REFERENCE_POINTS = 25;
+const PARTY_POINTS = 15;
+
+/**
+ * Amount and direction of a bank transaction, preferring what is still unallocated
+ */
+export function transactionAmount(transaction: BankTransaction): { amount: number; direction: 'deposit' | 'withdrawal' } {
+  const direction = (transaction.deposit || 0) > 0 ? 'deposit' : 'withdrawal';
+  const gross = direction === 'deposit' ? (transaction.deposit || 0) : (transaction.withdrawal || 0);
+  const unallocated = transaction.unallocated_amount;
+
+  return {
+    amount: unallocated !== undefined && unallocated !== null && unallocated > 0 ? unallocated : gross,
+    direction
+  };
+}
+
+/**
+ * Whole days between two YYYY-MM-DD dates (b - a)
+ */
+export function daysBetween(a: string, b: string): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round((Date.parse(b) - Date.parse(a)) / msPerDay);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(Date.parse(date) + days * 24 * 60 * 60 * 1000);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Normalize a reference or name for comparison: uppercase letters and digits only
+ */
+export function normalizeToken(value: string | undefined | null): string {
+  return (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function bigrams(value: string): string[] {
+  const cleaned = value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const grams: string[] = [];
+  for (let i = 0; i < cleaned.length - 1; i++) {
+    grams.push(cleaned.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient over character bigrams, 0 (nothing in common) to 1 (identical)
+ */
+export function stringSimilarity(a: string | undefined, b: string | undefined): number {
+  if (!a || !b) {
+    return 0;
+  }
+
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  if (gramsA.length === 0 || gramsB.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const gram of gramsA) {
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (const gram of gramsB) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (gramsA.length + gramsB.length);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Score one candidate voucher against a bank transaction. Returns null when the
+ * candidate moves money in the other direction.
+ */
+export function scoreCandidate(
+  transaction: BankTransaction,
+  candidate: ReconciliationCandidate,
+  options: MatchingOptions = DEFAULT_MATCHING_OPTIONS
+): ReconciliationMatch | null {
+  const { amount, direction } = transactionAmount(transaction);
+  if (candidate.direction !== direction) {
+    return null;
+  }
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Amount
+  const difference = Math.abs(candidate.amount - amount);
+  if (difference < 0.005) {
+    score += AMOUNT_POINTS;
+    reasons.push(`Exact amount match (${amount.toFixed(2)})`);
+  } else if (amount > 0 && difference / amount <= options.amount_tolerance) {
+    const closeness = 1 - difference / amount / options.amount_tolerance;
+    score += Math.round(AMOUNT_POINTS * (0.5 + 0.35 * closeness));
+    reasons.push(`Amount within ${(options.amount_tolerance * 100).toFixed(1)}% (${candidate.amount.toFixed(2)} vs ${amount.toFixed(2)})`);
+  } else if (candidate.amount > amount) {
+    reasons.push(`Voucher amount ${candidate.amount.toFixed(2)} exceeds transaction amount ${amount.toFixed(2)} (possible partial allocation)`);
+  }
+
+  // Date
+  const days = Math.abs(daysBetween(transaction.date, candidate.posting_date));
+  const window = candidate.voucher_type === 'Sales Invoice' || candidate.voucher_type === 'Purchase Invoice'
+    ? options.invoice_lookback_days
+    : options.date_window_days;
+  if (days === 0) {
+    score += DATE_POINTS;
+    reasons.push('Same date');
+  } else if (days <= window) {
+    score += Math.max(2, Math.round(DATE_POINTS * (1 - days / (window + 1))));
+    reasons.push(`Posted ${days} day${days === 1 ? '' : 's'} from transaction date`);
+  }
+
+  // Reference number / cheque number
+  const candidateReference = normalizeToken(candidate.reference);
+  const transactionReference = normalizeToken(transaction.reference_number);
+  const description = normalizeToken(transaction.description);
+  const voucherName = normalizeToken(candidate.voucher_name);
+  if (candidateReference && transactionReference && candidateReference === transactionReference) {
+    score += REFERENCE_POINTS;
+    reasons.push(`Reference number matches (${candidate.reference})`);
+  } else if (candidateReference.length >= 4 && description.includes(candidateReference)) {
+    score += Math.round(REFERENCE_POINTS * 0.8);
+    reasons.push(`Description contains reference ${candidate.reference}`);
+  } else if (voucherName.length >= 4 && (description.includes(voucherName) || transactionReference === voucherName)) {
+    score += Math.round(REFERENCE_POINTS * 0.8);
+    reasons.push(`Transaction mentions ${candidate.voucher_name}`);
+  }
+
+  // Party name
+  if (candidate.party) {
+    const party = normalizeToken(candidate.party);
+    const similarity = Math.max(
+      stringSimilarity(transaction.bank_party_name, candidate.party),
+      party.length >= 3 && description.includes(party) ? 1 : 0
+    );
+    if (similarity >= 0.4) {
+      score += Math.round(PARTY_POINTS * similarity);
+      reasons.push(`Party name similarity ${(similarity * 100).toFixed(0)}% (${candidate.party})`);
+    }
+  }
+
+  return {
+    ...candidate,
+    amount: round2(candidate.amount),
+    score: Math.min(100, score),
+    reasons
+  };
+}
+
+/**
+ * Rank candidate vouchers for a bank transaction, best match first
+ */
+export function rankCandidates(
+  transaction: BankTransaction,
+  candidates: ReconciliationCandidate[],
+  options: MatchingOptions = DEFAULT_MATCHING_OPTIONS
+): ReconciliationSuggestion {
+  const { amount, direction } = transactionAmount(transaction);
+
+  const matches = candidates
+    .map(candidate => scoreCandidate(transaction, candidate, options))
+    .filter((match): match is ReconciliationMatch => match !== null && match.score >= options.min_score)
+    .sort((a, b) => b.score - a.score || a.posting_date.localeCompare(b.posting_date))
+    .slice(0, options.max_matches);
+
+  return {
+    bank_transaction: transaction.name || '',
+    date: transaction.date,
+    amount: round2(amount),
+    direction,
+    description: transaction.description,
+    reference_number: transaction.reference_number,
+    party: transaction.bank_party_name,
+    matches
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Session cookie handling for ERPNext MCP Server
+ */
+
+/**
+ * Minimal cookie jar for one ERPNext site: keeps name=value pairs from
+ * Set-Cookie headers and drops cookies the server expires
+ */
+export class CookieJar {
+  private cookies = new Map<string, string>();
+
+  store(setCookie: string[] | string | undefined): void {
+    if (!setCookie) {
+      return;
+    }
+
+    for (const header of Array.isArray(setCookie) ? setCookie : [setCookie]) {
+      const [pair, ...attributes] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) {
+        continue;
+      }
+
+      const name = pair.slice(0, separator).trim();
+      const value = pair.slice(separator + 1).trim();
+      const expired = attributes.some(attribute => {
+        const [key, ...rest] = attribute.split('=');
+        const attributeValue = rest.join('=').trim();
+        switch (key.trim().toLowerCase()) {
+          case 'max-age':
+            return Number(attributeValue) <= 0;
+          case 'expires':
+            return Date.parse(attributeValue) <= Date.now();
+          default:
+            return false;
+        }
+      });
+
+      if (expired || value === '') {
+        this.cookies.delete(name);
+      } else {
+        this.cookies.set(name, value);
+      }
+    }
+  }
+
+  get(name: string): string | undefined {
+    return this.cookies.get(name);
+  }
+
+  clear(): void {
+    this.cookies.clear();
+  }
+
+  /**
+   * Value for a Cookie request header, or undefined when the jar is empty
+   */
+  header(): string | undefined {
+    if (this.cookies.size === 0) {
+      return undefined;
+    }
+    return [...this.cookies.entries()].map(([name, value]) => `${name}=${value}`).join('; ');
+  }
+}
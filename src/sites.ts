@@ -0,0 +1,162 @@
+/**
+ * Named ERPNext site profiles for ERPNext MCP Server
+ *
+ * Profiles come from the JSON or YAML file named by ERPNEXT_SITES_FILE:
+ *
+ *   default: production
+ *   sites:
+ *     production:
+ *       url: https://erp.example.com
+ *       api_key_env: PROD_API_KEY
+ *       api_secret_env: PROD_API_SECRET
+ *
+ * A site may use OAuth2 instead of API keys:
+ *
+ *       oauth:
+ *         client_id: a1b2c3
+ *         redirect_uri: http://localhost/callback
+ *         scope: all openid
+ *
+ * Without a file, ERPNEXT_URL, ERPNEXT_API_KEY and ERPNEXT_API_SECRET (or the
+ * ERPNEXT_OAUTH_* variables) define a single site named by ERPNEXT_SITE_NAME
+ * (default "default").
+ */
+
+import { readFile } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import { OAuthConfig, SiteConfig, SiteProfile } from './types.js';
+
+const NUMBER_SETTINGS = ['concurrency', 'rate_limit', 'rate_burst', 'max_retries'] as const;
+
+// Read a credential given inline or through the environment variable named by `<key>_env`
+function credential(raw: Record<string, any>, key: string, label: string): string | undefined {
+  const envName = raw[`${key}_env`];
+  if (envName !== undefined) {
+    if (typeof envName !== 'string' || !process.env[envName]) {
+      throw new Error(`${label}: environment variable ${envName} for ${key} is not set`);
+    }
+    return process.env[envName];
+  }
+  if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+    throw new Error(`${label}: ${key} must be a string`);
+  }
+  return raw[key];
+}
+
+/**
+ * Validate the oauth block of a site entry
+ */
+export function parseOAuthConfig(raw: unknown, label: string): OAuthConfig {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${label}: oauth must be an object`);
+  }
+  const entry = raw as Record<string, any>;
+  for (const key of ['client_id', 'redirect_uri']) {
+    if (typeof entry[key] !== 'string' || entry[key].trim() === '') {
+      throw new Error(`${label}: oauth.${key} is required`);
+    }
+  }
+  for (const key of ['scope', 'token_file']) {
+    if (entry[key] !== undefined && typeof entry[key] !== 'string') {
+      throw new Error(`${label}: oauth.${key} must be a string`);
+    }
+  }
+
+  return {
+    client_id: entry.client_id,
+    client_secret: credential(entry, 'client_secret', `${label} oauth`),
+    redirect_uri: entry.redirect_uri,
+    scope: entry.scope,
+    token_file: entry.token_file
+  };
+}
+
+/**
+ * Validate one site entry from the config file
+ */
+export function parseSiteProfile(name: string, raw: unknown): SiteProfile {
+  const label = `Site ${name}`;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${label}: must be an object`);
+  }
+  const entry = raw as Record<string, any>;
+  if (typeof entry.url !== 'string' || entry.url.trim() === '') {
+    throw new Error(`${label}: url is required`);
+  }
+
+  const profile: SiteProfile = {
+    name,
+    url: entry.url.trim().replace(/\/$/, ''),
+    description: typeof entry.description === 'string' ? entry.description : undefined,
+    api_key: credential(entry, 'api_key', label),
+    api_secret: credential(entry, 'api_secret', label),
+    oauth: entry.oauth !== undefined ? parseOAuthConfig(entry.oauth, label) : undefined
+  };
+
+  for (const key of NUMBER_SETTINGS) {
+    if (entry[key] !== undefined) {
+      if (typeof entry[key] !== 'number' || entry[key] < 0) {
+        throw new Error(`${label}: ${key} must be a non-negative number`);
+      }
+      profile[key] = entry[key];
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Validate a parsed sites file: { default?, sites: { name: profile } }
+ */
+export function parseSiteConfig(raw: unknown): SiteConfig {
+  const sitesRaw = (raw as any)?.sites;
+  if (!sitesRaw || typeof sitesRaw !== 'object' || Array.isArray(sitesRaw)) {
+    throw new Error('Sites file must contain a "sites" object keyed by site name');
+  }
+
+  const sites = Object.entries(sitesRaw).map(([name, entry]) => parseSiteProfile(name, entry));
+  if (sites.length === 0) {
+    throw new Error('Sites file must define at least one site');
+  }
+
+  const defaultSite = (raw as any).default ?? sites[0].name;
+  if (!sites.some(site => site.name === defaultSite)) {
+    throw new Error(`Default site ${defaultSite} is not defined in the sites file`);
+  }
+
+  return { default_site: defaultSite, sites };
+}
+
+/**
+ * Load site profiles from ERPNEXT_SITES_FILE, or build the single env-configured site
+ */
+export async function loadSiteConfig(): Promise<SiteConfig> {
+  const filePath = process.env.ERPNEXT_SITES_FILE;
+  if (filePath) {
+    const text = await readFile(filePath, 'utf8');
+    const raw = /\.json$/i.test(filePath) ? JSON.parse(text) : parseYaml(text);
+    return parseSiteConfig(raw);
+  }
+
+  const url = process.env.ERPNEXT_URL;
+  if (!url) {
+    throw new Error("ERPNEXT_URL environment variable is required (or ERPNEXT_SITES_FILE for multiple sites)");
+  }
+
+  const name = process.env.ERPNEXT_SITE_NAME || 'default';
+  return {
+    default_site: name,
+    sites: [parseSiteProfile(name, {
+      url,
+      api_key: process.env.ERPNEXT_API_KEY,
+      api_secret: process.env.ERPNEXT_API_SECRET,
+      oauth: process.env.ERPNEXT_OAUTH_CLIENT_ID ? {
+        client_id: process.env.ERPNEXT_OAUTH_CLIENT_ID,
+        client_secret: process.env.ERPNEXT_OAUTH_CLIENT_SECRET,
+        redirect_uri: process.env.ERPNEXT_OAUTH_REDIRECT_URI,
+        scope: process.env.ERPNEXT_OAUTH_SCOPE,
+        token_file: process.env.ERPNEXT_OAUTH_TOKEN_FILE
+      } : undefined
+    })]
+  };
+}
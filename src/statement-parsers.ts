@@ -0,0 +1,579 @@
+/**
+ * Bank statement parsers (CSV, OFX/QFX, QIF, CAMT.053) for ERPNext MCP Server
+ *
+ * Every parser normalizes its rows into BankTransaction objects and collects
+ * per-row errors instead of failing the whole statement.
+ */
+
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import {
+  BankImportColumn,
+  BankTransaction,
+  DecimalSeparator,
+  ParsedStatement,
+  StatementFormat,
+  StatementParseOptions
+} from './types.js';
+import {
+  categorizeAmount,
+  parseAmount,
+  parseDate
+} from './bank-utils.js';
+
+/**
+ * Parse a statement amount such as "1,234.56", "1.234,56", "€ 12,50" or "-12.50",
+ * dropping currency symbols and codes. Without a given decimal separator, the last
+ * separator is the decimal point when both appear, and a separator that repeats
+ * only groups thousands.
+ */
+function statementAmount(text: string, decimalSeparator?: DecimalSeparator): number {
+  const cleaned = text.replace(/[\s'\p{Sc}]/gu, '').replace(/^[A-Z]{3}|[A-Z]{3}$/g, '');
+
+  let decimal = decimalSeparator;
+  if (!decimal) {
+    const lastComma = cleaned.lastIndexOf(',');
+    const lastDot = cleaned.lastIndexOf('.');
+    if (lastComma !== -1 && lastDot !== -1) {
+      decimal = lastComma > lastDot ? ',' : '.';
+    } else if (lastComma !== -1) {
+      decimal = cleaned.indexOf(',') === lastComma ? ',' : '.';
+    } else {
+      decimal = lastDot !== -1 && cleaned.indexOf('.') !== lastDot ? ',' : '.';
+    }
+  }
+
+  const normalized = cleaned.split(decimal === ',' ? '.' : ',').join('').replace(decimal, '.');
+  return /^[+-]?\d+(\.\d+)?$/.test(normalized) ? parseFloat(normalized) : NaN;
+}
+
+/**
+ * Like statementAmount, but an amount that cannot be parsed fails the row
+ */
+function requireAmount(text: string, decimalSeparator?: DecimalSeparator): number {
+  const amount = statementAmount(text, decimalSeparator);
+  if (isNaN(amount)) {
+    throw new Error(`Invalid amount format: ${text}`);
+  }
+  return amount;
+}
+
+/**
+ * Guess the statement format from the file name and content
+ */
+export function detectStatementFormat(content: string, fileName?: string): StatementFormat {
+  const extension = fileName?.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'ofx':
+    case 'qfx':
+      return 'ofx';
+    case 'qif':
+      return 'qif';
+    case 'csv':
+    case 'txt':
+      if (!/^\s*(OFXHEADER|<OFX>|!Type:)/i.test(content)) {
+        return 'csv';
+      }
+  }
+
+  const head = content.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head)) {
+    return 'ofx';
+  }
+  if (/^\s*!(Type|Account|Option)/i.test(head)) {
+    return 'qif';
+  }
+  if (/camt\.053|<(\w+:)?BkToCstmrStmt\b/.test(head) || (extension === 'xml' && /<(\w+:)?Ntry\b/.test(content))) {
+    return 'camt053';
+  }
+
+  return 'csv';
+}
+
+/**
+ * Load a statement from a local file or inline content and parse it,
+ * detecting the format when none is given
+ */
+export async function loadStatement(
+  filePath: string | undefined,
+  content: string | undefined,
+  format: StatementFormat | undefined,
+  options: StatementParseOptions
+): Promise<ParsedStatement> {
+  if (!filePath && content === undefined) {
+    throw new Error('Either file_path or content is required');
+  }
+
+  const text = content ?? await readFile(filePath as string, 'utf8');
+  const resolvedFormat = format || detectStatementFormat(text, filePath ? basename(filePath) : undefined);
+
+  return parseStatement(text, resolvedFormat, options);
+}
+
+/**
+ * Parse any supported statement format
+ */
+export function parseStatement(
+  content: string,
+  format: StatementFormat,
+  options: StatementParseOptions
+): ParsedStatement {
+  switch (format) {
+    case 'csv':
+      return parseCsvStatement(content, options);
+    case 'ofx':
+      return parseOfxStatement(content, options);
+    case 'qif':
+      return parseQifStatement(content, options);
+    case 'camt053':
+      return parseCamt053Statement(content, options);
+    default:
+      throw new Error(`Unsupported statement format: ${format}`);
+  }
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting, CRLF or LF line endings)
+ */
+export function parseCsv(content: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Turn accounting-style negatives such as "(45.50)" or "45.50-" into "-45.50"
+ */
+function signedAmountText(value: string): string {
+  const trimmed = value.trim();
+  const parenthesized = trimmed.match(/^\((.*)\)$/);
+  if (parenthesized) {
+    return `-${parenthesized[1]}`;
+  }
+  if (/^[^-].*-$/.test(trimmed)) {
+    return `-${trimmed.slice(0, -1)}`;
+  }
+  return trimmed;
+}
+
+function cellValue(row: any[], column: BankImportColumn | undefined): string {
+  if (!column) {
+    return '';
+  }
+  return String(row[column.column_index] ?? '').trim();
+}
+
+/**
+ * Parse a CSV statement using a column mapping
+ */
+export function parseCsvStatement(content: string, options: StatementParseOptions): ParsedStatement {
+  const mapping = options.mapping;
+  if (!mapping) {
+    throw new Error('A column mapping is required to parse CSV statements');
+  }
+  if (!mapping.amount && !mapping.deposit && !mapping.withdrawal) {
+    throw new Error('The column mapping needs an amount column or deposit/withdrawal columns');
+  }
+
+  const rows = parseCsv(content, options.delimiter || ',');
+  const dataRows = options.has_header === false ? rows : rows.slice(1);
+  const firstRowIndex = options.has_header === false ? 0 : 1;
+
+  return parseMappedRows(dataRows, options, firstRowIndex);
+}
+
+/**
+ * Normalize tabular rows (already split into cells, without a header) using a column mapping
+ */
+export function parseMappedRows(rows: any[][], options: StatementParseOptions, firstRowIndex: number = 0): ParsedStatement {
+  const mapping = options.mapping;
+  if (!mapping) {
+    throw new Error('A column mapping is required to parse tabular statements');
+  }
+
+  const result: ParsedStatement = {
+    format: 'csv',
+    transactions: [],
+    errors: []
+  };
+
+  rows.forEach((row, offset) => {
+    const rowIndex = firstRowIndex + offset;
+
+    try {
+      const date = parseDate(cellValue(row, mapping.date), options.date_order);
+
+      let deposit = 0;
+      let withdrawal = 0;
+      if (mapping.amount) {
+        const amount = statementAmount(signedAmountText(cellValue(row, mapping.amount)), options.decimal_separator);
+        if (isNaN(amount)) {
+          throw new Error(`Invalid amount format: ${cellValue(row, mapping.amount)}`);
+        }
+        ({ deposit, withdrawal } = categorizeAmount(amount));
+      } else {
+        const depositText = cellValue(row, mapping.deposit);
+        const withdrawalText = cellValue(row, mapping.withdrawal);
+        deposit = depositText ? Math.abs(requireAmount(depositText, options.decimal_separator)) : 0;
+        withdrawal = withdrawalText ? Math.abs(requireAmount(withdrawalText, options.decimal_separator)) : 0;
+      }
+
+      if (deposit === 0 && withdrawal === 0) {
+        throw new Error('Row has no deposit or withdrawal amount');
+      }
+
+      const transaction: BankTransaction = {
+        date,
+        deposit,
+        withdrawal,
+        description: cellValue(row, mapping.description),
+        bank_account: options.bank_account
+      };
+
+      const reference = cellValue(row, mapping.reference);
+      const transactionId = cellValue(row, mapping.transaction_id);
+      const partyName = cellValue(row, mapping.party_name);
+      if (reference) {
+        transaction.reference_number = reference;
+      }
+      if (transactionId) {
+        transaction.transaction_id = transactionId;
+      }
+      if (partyName) {
+        transaction.bank_party_name = partyName;
+      }
+
+      result.transactions.push(transaction);
+    } catch (error: any) {
+      result.errors.push({
+        row_index: rowIndex,
+        error: error?.message || 'Unknown error',
+        data: row
+      });
+    }
+  });
+
+  return result;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read a leaf value from OFX, which may be SGML (no closing tags) or XML
+ */
+function ofxValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1].trim()) : '';
+  return value === '' ? undefined : value;
+}
+
+/**
+ * Convert an OFX date (YYYYMMDD[HHMMSS[.XXX]][[TZ]]) to YYYY-MM-DD
+ */
+function ofxDate(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    throw new Error(`Invalid OFX date: ${value}`);
+  }
+  return parseDate(`${match[1]}-${match[2]}-${match[3]}`);
+}
+
+/**
+ * Parse an OFX or QFX statement
+ */
+export function parseOfxStatement(content: string, options: StatementParseOptions): ParsedStatement {
+  const result: ParsedStatement = {
+    format: 'ofx',
+    currency: ofxValue(content, 'CURDEF'),
+    account_identifier: ofxValue(content, 'ACCTID'),
+    transactions: [],
+    errors: []
+  };
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  blocks.forEach((block, rowIndex) => {
+    try {
+      const postedText = ofxValue(block, 'DTPOSTED');
+      const amountText = ofxValue(block, 'TRNAMT');
+      if (!postedText || !amountText) {
+        throw new Error('Transaction is missing DTPOSTED or TRNAMT');
+      }
+
+      // OFX allows a comma as the decimal separator
+      const amount = requireAmount(amountText);
+
+      const name = ofxValue(block, 'NAME');
+      const memo = ofxValue(block, 'MEMO');
+      const { deposit, withdrawal } = categorizeAmount(amount);
+
+      const transaction: BankTransaction = {
+        date: ofxDate(postedText),
+        deposit,
+        withdrawal,
+        description: [name, memo].filter(Boolean).join(' - '),
+        bank_account: options.bank_account
+      };
+
+      const reference = ofxValue(block, 'CHECKNUM') || ofxValue(block, 'REFNUM');
+      const transactionId = ofxValue(block, 'FITID');
+      if (reference) {
+        transaction.reference_number = reference;
+      }
+      if (transactionId) {
+        transaction.transaction_id = transactionId;
+      }
+      if (name) {
+        transaction.bank_party_name = name;
+      }
+      if (result.currency) {
+        transaction.currency = result.currency;
+      }
+
+      result.transactions.push(transaction);
+    } catch (error: any) {
+      result.errors.push({
+        row_index: rowIndex,
+        error: error?.message || 'Unknown error',
+        data: block
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Parse a QIF statement (bank, cash or credit card sections)
+ */
+export function parseQifStatement(content: string, options: StatementParseOptions): ParsedStatement {
+  const result: ParsedStatement = {
+    format: 'qif',
+    transactions: [],
+    errors: []
+  };
+
+  const records: Array<Record<string, string[]>> = [];
+  let current: Record<string, string[]> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (line === '' || line.startsWith('!')) {
+      continue;
+    }
+    if (line.startsWith('^')) {
+      if (Object.keys(current).length > 0) {
+        records.push(current);
+      }
+      current = {};
+      continue;
+    }
+
+    const code = line[0];
+    (current[code] = current[code] || []).push(line.slice(1).trim());
+  }
+
+  if (Object.keys(current).length > 0) {
+    records.push(current);
+  }
+
+  records.forEach((record, rowIndex) => {
+    try {
+      const dateText = record.D?.[0];
+      const amountText = record.T?.[0] ?? record.U?.[0];
+      if (!dateText || !amountText) {
+        throw new Error('Record is missing a date (D) or amount (T)');
+      }
+
+      // QIF writes two-digit years as 1/ 5'25
+      const date = parseDate(dateText.replace(/\s+/g, ''), options.date_order || 'MDY');
+      const amount = requireAmount(amountText, options.decimal_separator);
+
+      const payee = record.P?.[0];
+      const memo = record.M?.[0];
+      const { deposit, withdrawal } = categorizeAmount(amount);
+
+      const transaction: BankTransaction = {
+        date,
+        deposit,
+        withdrawal,
+        description: [payee, memo].filter(Boolean).join(' - '),
+        bank_account: options.bank_account
+      };
+
+      const reference = record.N?.[0];
+      if (reference) {
+        transaction.reference_number = reference;
+      }
+      if (payee) {
+        transaction.bank_party_name = payee;
+      }
+
+      result.transactions.push(transaction);
+    } catch (error: any) {
+      result.errors.push({
+        row_index: rowIndex,
+        error: error?.message || 'Unknown error',
+        data: record
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * All elements with the given local name (namespace prefixes are ignored)
+ */
+function xmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  const elements: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    elements.push(match[1]);
+  }
+  return elements;
+}
+
+/**
+ * Text of the first element found by following a path of local names
+ */
+function xmlText(xml: string, ...path: string[]): string | undefined {
+  let scope: string | undefined = xml;
+  for (const tag of path) {
+    scope = xmlElements(scope, tag)[0];
+    if (scope === undefined) {
+      return undefined;
+    }
+  }
+  const value = decodeEntities(scope.replace(/<[^>]+>/g, '').trim());
+  return value === '' ? undefined : value;
+}
+
+/**
+ * Parse an ISO 20022 CAMT.053 bank-to-customer statement
+ */
+export function parseCamt053Statement(content: string, options: StatementParseOptions): ParsedStatement {
+  const statement = xmlElements(content, 'Stmt')[0] ?? content;
+  const currencyMatch = statement.match(/<(?:\w+:)?Acct\b[\s\S]*?<(?:\w+:)?Ccy>([A-Z]{3})</);
+
+  const result: ParsedStatement = {
+    format: 'camt053',
+    currency: currencyMatch?.[1],
+    account_identifier: xmlText(statement, 'Acct', 'IBAN') || xmlText(statement, 'Acct', 'Othr', 'Id'),
+    transactions: [],
+    errors: []
+  };
+
+  xmlElements(statement, 'Ntry').forEach((entry, rowIndex) => {
+    try {
+      const amountMatch = entry.match(/<(?:\w+:)?Amt(?:\s+Ccy="([A-Z]{3})")?[^>]*>([^<]+)</);
+      const indicator = xmlText(entry, 'CdtDbtInd');
+      const bookingDate = xmlText(entry, 'BookgDt', 'Dt') || xmlText(entry, 'BookgDt', 'DtTm')
+        || xmlText(entry, 'ValDt', 'Dt');
+      if (!amountMatch || !indicator || !bookingDate) {
+        throw new Error('Entry is missing Amt, CdtDbtInd or BookgDt');
+      }
+
+      const amount = parseAmount(amountMatch[2]);
+      const isCredit = indicator === 'CRDT';
+      const details = xmlElements(entry, 'TxDtls')[0] ?? entry;
+
+      const party = isCredit
+        ? xmlText(details, 'RltdPties', 'Dbtr', 'Nm') || xmlText(details, 'RltdPties', 'Dbtr', 'Pty', 'Nm')
+        : xmlText(details, 'RltdPties', 'Cdtr', 'Nm') || xmlText(details, 'RltdPties', 'Cdtr', 'Pty', 'Nm');
+      const remittance = xmlElements(details, 'Ustrd').map(text => decodeEntities(text.trim())).join(' ');
+      const description = remittance || xmlText(entry, 'AddtlNtryInf') || party || '';
+
+      const endToEndId = xmlText(details, 'Refs', 'EndToEndId');
+      const reference = endToEndId && endToEndId !== 'NOTPROVIDED'
+        ? endToEndId
+        : xmlText(details, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref');
+
+      const transaction: BankTransaction = {
+        date: parseDate(bookingDate),
+        deposit: isCredit ? amount : 0,
+        withdrawal: isCredit ? 0 : amount,
+        description,
+        bank_account: options.bank_account
+      };
+
+      const transactionId = xmlText(entry, 'AcctSvcrRef') || xmlText(details, 'Refs', 'AcctSvcrRef') || xmlText(entry, 'NtryRef');
+      const currency = amountMatch[1] || result.currency;
+      if (reference) {
+        transaction.reference_number = reference;
+      }
+      if (transactionId) {
+        transaction.transaction_id = transactionId;
+      }
+      if (party) {
+        transaction.bank_party_name = party;
+      }
+      if (currency) {
+        transaction.currency = currency;
+      }
+
+      result.transactions.push(transaction);
+    } catch (error: any) {
+      result.errors.push({
+        row_index: rowIndex,
+        error: error?.message || 'Unknown error',
+        data: entry.trim().slice(0, 500)
+      });
+    }
+  });
+
+  return result;
+}
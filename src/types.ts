@@ -18,6 +18,8 @@ export interface BankTransaction {
   bank_party_name?: string;
   bank_party_account_number?: string;
   bank_party_iban?: string;
+  allocated_amount?: number;
+  unallocated_amount?: number;
 }
 
 export interface BankAccount {
@@ -34,6 +36,62 @@ export interface BankAccount {
   disabled?: number;
 }
 
+// Reconciliation Types
+export type VoucherType = 'Payment Entry' | 'Journal Entry' | 'Sales Invoice' | 'Purchase Invoice';
+
+export interface ReconciliationCandidate {
+  voucher_type: VoucherType;
+  voucher_name: string;
+  posting_date: string;
+  amount: number;
+  direction: 'deposit' | 'withdrawal';
+  party?: string;
+  reference?: string;
+  remarks?: string;
+}
+
+export interface ReconciliationMatch extends ReconciliationCandidate {
+  score: number;
+  reasons: string[];
+}
+
+export interface ReconciliationSuggestion {
+  bank_transaction: string;
+  date: string;
+  amount: number;
+  direction: 'deposit' | 'withdrawal';
+  description: string;
+  reference_number?: string;
+  party?: string;
+  matches: ReconciliationMatch[];
+}
+
+export interface BankReconciliationAllocation {
+  voucher_type: VoucherType | string;
+  voucher_name: string;
+  amount?: number;
+}
+
+export interface BankReconciliationResult {
+  bank_transaction: string;
+  status?: string;
+  allocated_amount: number;
+  unallocated_amount: number;
+  payment_entries: Array<{
+    payment_document: string;
+    payment_entry: string;
+    allocated_amount: number;
+  }>;
+}
+
+export interface MatchingOptions {
+  date_window_days: number;
+  invoice_lookback_days: number;
+  amount_tolerance: number; // fraction of the transaction amount, e.g. 0.01 = 1%
+  min_score: number;
+  max_matches: number;
+}
+
 // Journal Entry Types
 export interface JournalEntryAccount {
   account: string;
@@ -42,6 +100,7 @@ export interface JournalEntryAccount {
   user_remark?: string;
   reference_type?: string;
   reference_name?: string;
+  cost_center?: string;
 }
 
 export interface JournalEntry {
@@ -53,6 +112,7 @@ export interface JournalEntry {
   user_remark?: string;
   cheque_no?: string;
   cheque_date?: string;
+  idempotency_key?: string; // batch input only, stripped before the entry is sent to ERPNext
 }
 
 export interface JournalEntryValidation {
@@ -76,6 +136,214 @@ export interface Account {
   company: string;
 }
 
+export interface AccountBalance {
+  debit: number;
+  credit: number;
+  balance: number; // debit - credit, in company currency
+}
+
+export interface AccountTreeNode {
+  name: string;
+  account_name: string;
+  account_number?: string;
+  account_type?: string;
+  root_type?: string;
+  account_currency?: string;
+  is_group: boolean;
+  balance?: AccountBalance; // own GL postings plus every descendant's
+  children: AccountTreeNode[];
+}
+
+// Reporting Period Types
+export interface FiscalYear {
+  name: string;
+  year_start_date: string;
+  year_end_date: string;
+  companies: string[]; // empty when the year applies to every company
+}
+
+export type PeriodPreset =
+  | 'this_month'
+  | 'last_month'
+  | 'this_quarter'
+  | 'last_quarter'
+  | 'ytd'
+  | 'this_fiscal_year'
+  | 'prior_fiscal_year';
+
+export interface PeriodSpec {
+  period?: PeriodPreset;
+  from_date?: string;
+  to_date?: string;
+  as_of_date?: string; // anchor for presets (defaults to today)
+}
+
+export interface PeriodRange {
+  from_date: string;
+  to_date: string;
+  label: string;
+}
+
+export interface ReportingPeriod extends PeriodRange {
+  fiscal_year: string; // the fiscal year containing to_date
+  fiscal_year_start: string;
+  fiscal_year_end: string;
+}
+
+// Financial Statement Types
+export type StatementKind = 'balance_sheet' | 'profit_and_loss' | 'cash_flow';
+
+export type Periodicity = 'monthly' | 'quarterly' | 'half_yearly' | 'yearly';
+
+export type ComparisonBasis = 'prior_period' | 'prior_year' | 'budget';
+
+export interface StatementPeriodColumn {
+  key: string; // report fieldname, e.g. "jul_2025"
+  label: string;
+}
+
+export interface StatementLine {
+  label: string;
+  account?: string;
+  parent_account?: string;
+  indent: number;
+  is_total: boolean; // total and summary rows added by the report
+  amounts: Record<string, number>; // by period column key
+  total: number; // period total for P&L and cash flow, closing balance for the balance sheet
+  comparison?: number;
+  variance?: number;
+  variance_percent?: number | null; // null when the comparison is zero
+}
+
+export interface StatementSection {
+  title: string;
+  lines: StatementLine[];
+}
+
+export interface FinancialStatement {
+  statement: StatementKind;
+  company: string;
+  currency?: string;
+  period: ReportingPeriod;
+  periodicity: Periodicity;
+  periods: StatementPeriodColumn[];
+  comparison?: {
+    basis: ComparisonBasis;
+    from_date: string;
+    to_date: string;
+    note?: string;
+  };
+  sections: StatementSection[];
+}
+
+// General Ledger Types
+export interface GeneralLedgerQuery {
+  company: string;
+  account?: string;
+  include_child_accounts?: boolean;
+  party_type?: string;
+  party?: string;
+  voucher_type?: string;
+  voucher_no?: string;
+  cost_center?: string;
+  limit?: number;
+}
+
+export interface GeneralLedgerEntry {
+  gl_entry: string;
+  posting_date: string;
+  account: string;
+  debit: number;
+  credit: number;
+  balance: number; // running balance (debit - credit) after this entry
+  voucher_type: string;
+  voucher_no: string;
+  party_type?: string;
+  party?: string;
+  against?: string;
+  cost_center?: string;
+  remarks?: string;
+}
+
+export interface GeneralLedgerGroup {
+  key: string;
+  voucher_type?: string;
+  voucher_no?: string;
+  party_type?: string;
+  party?: string;
+  posting_date?: string; // first posting of the group
+  entry_count: number;
+  debit: number;
+  credit: number;
+  net: number;
+  balance?: number; // running balance after the voucher (voucher grouping only)
+}
+
+export interface GeneralLedger {
+  company: string;
+  accounts?: string[]; // accounts covered when filtering by account
+  period: PeriodRange | ReportingPeriod; // fiscal year details only when one covers to_date
+  opening_balance: number;
+  total_debit: number;
+  total_credit: number;
+  closing_balance: number;
+  entry_count: number;
+  truncated: boolean; // more entries than the limit; totals and closing balance still cover all of them
+  entries: GeneralLedgerEntry[];
+  group_by?: 'voucher' | 'party';
+  groups?: GeneralLedgerGroup[];
+}
+
+// Consolidation Types
+export type ConsolidatedReportKind = 'trial_balance' | 'balance_sheet' | 'profit_and_loss';
+
+export type AccountMapping = 'account_number' | 'account_name' | 'root_type';
+
+export interface EntityAccountAmount {
+  account: string;
+  account_number?: string;
+  account_name: string;
+  root_type: string;
+  amount: number; // debit - credit, in the entity's currency
+  intercompany: number; // part of amount tagged as intercompany, eliminated on consolidation
+}
+
+export interface ConsolidationEntity {
+  company: string;
+  parent_company?: string;
+  currency: string;
+  exchange_rate: number; // presentation currency per unit of the entity's currency
+  rate_source: 'same_currency' | 'argument' | 'currency_exchange';
+}
+
+export interface ConsolidatedLine {
+  key: string;
+  label: string;
+  root_type?: string;
+  is_total: boolean;
+  entities: Record<string, number>; // by company, in the presentation currency
+  eliminations: number;
+  consolidated: number;
+}
+
+export interface ConsolidatedSection {
+  title: string;
+  lines: ConsolidatedLine[];
+}
+
+export interface ConsolidatedReport {
+  report: ConsolidatedReportKind;
+  parent_company: string;
+  presentation_currency: string;
+  period: ReportingPeriod;
+  map_by: AccountMapping;
+  sign_convention: string;
+  entities: ConsolidationEntity[];
+  sections: ConsolidatedSection[];
+  intercompany_difference: number; // eliminated amounts that did not offset each other
+  notes: string[];
+}
+
 // Bank Import Types
 export interface BankImportColumn {
   field_name: string;
@@ -86,8 +354,11 @@ export interface BankImportMapping {
   date: BankImportColumn;
   deposit?: BankImportColumn;
   withdrawal?: BankImportColumn;
+  amount?: BankImportColumn; // signed amount, used when deposit/withdrawal are not separate columns
   description: BankImportColumn;
   reference?: BankImportColumn;
+  transaction_id?: BankImportColumn;
+  party_name?: BankImportColumn;
 }
 
 export interface BankImportResult {
@@ -101,11 +372,185 @@ export interface BankImportResult {
   }>;
 }
 
+// Bank Statement Types
+export type StatementFormat = 'csv' | 'ofx' | 'qif' | 'camt053';
+
+export type DateOrder = 'YMD' | 'MDY' | 'DMY';
+
+export type DecimalSeparator = '.' | ',';
+
+export interface StatementParseOptions {
+  bank_account: string;
+  mapping?: BankImportMapping; // required for CSV
+  delimiter?: string;
+  has_header?: boolean;
+  date_order?: DateOrder;
+  decimal_separator?: DecimalSeparator; // CSV and QIF; detected per amount when not given
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  currency?: string;
+  account_identifier?: string;
+  transactions: BankTransaction[];
+  errors: Array<{
+    row_index: number;
+    error: string;
+    data: any;
+  }>;
+}
+
+// Duplicate Detection Types
+export type DuplicateStatus = 'new' | 'duplicate' | 'likely_duplicate';
+
+export interface DuplicateCheckRow {
+  row_index: number;
+  status: DuplicateStatus;
+  reason?: string;
+  existing_transaction?: string;
+  transaction: BankTransaction;
+}
+
+export interface DuplicateCheckResult {
+  new_count: number;
+  duplicate_count: number;
+  likely_duplicate_count: number;
+  rows: DuplicateCheckRow[];
+}
+
+// Categorization Rule Types
+export interface CategorizationRule {
+  name: string;
+  description_pattern?: string; // regular expression matched against the description
+  counterparty_pattern?: string; // regular expression matched against bank_party_name
+  min_amount?: number;
+  max_amount?: number;
+  direction?: 'deposit' | 'withdrawal';
+  bank_account?: string;
+  case_sensitive?: boolean;
+  account: string;
+  cost_center?: string;
+  remark?: string; // may use {description}, {party}, {reference} and {date}
+}
+
+export interface CategorizationDraft {
+  bank_transaction: string;
+  rule: string;
+  journal_entry: JournalEntry;
+}
+
+export interface CategorizationResult {
+  matched_count: number;
+  unmatched_count: number;
+  drafts: CategorizationDraft[];
+  unmatched: Array<{
+    bank_transaction: string;
+    date: string;
+    amount: number;
+    direction: 'deposit' | 'withdrawal';
+    description: string;
+    reason: string;
+  }>;
+}
+
+// Site Types
+export interface OAuthConfig {
+  client_id: string;
+  client_secret?: string;
+  redirect_uri: string;
+  scope?: string;
+  token_file?: string;
+}
+
+export interface OAuthToken {
+  access_token: string;
+  refresh_token?: string;
+  expires_at: number; // epoch milliseconds
+  scope?: string;
+}
+
+export interface SiteProfile {
+  name: string;
+  url: string;
+  description?: string;
+  api_key?: string;
+  api_secret?: string;
+  oauth?: OAuthConfig;
+  concurrency?: number;
+  rate_limit?: number;
+  rate_burst?: number;
+  max_retries?: number;
+}
+
+export interface SiteConfig {
+  default_site: string;
+  sites: SiteProfile[];
+}
+
+// Policy Types
+export interface AllowDenyList {
+  allow?: string[]; // when set, only these names are permitted
+  deny: string[];
+}
+
+export interface Policy {
+  read_only: boolean;
+  tools: AllowDenyList;
+  doctypes: AllowDenyList;
+  max_journal_entry_amount?: number;
+  require_dry_run: string[]; // write tools that need a matching dry run before the real call
+  dry_run_ttl_minutes: number;
+}
+
+// Audit Log Types
+export interface AuditDocument {
+  doctype: string;
+  name: string;
+  action: 'created' | 'updated' | 'submitted' | 'cancelled' | 'deleted' | 'reconciled' | 'unreconciled';
+  before?: Record<string, any>; // updates only
+  after?: Record<string, any>; // updates only
+}
+
+export interface AuditRecord {
+  timestamp: string;
+  site: string;
+  tool: string;
+  arguments: Record<string, unknown>; // secrets redacted
+  success: boolean;
+  error?: string;
+  documents: AuditDocument[];
+}
+
+export interface AuditQuery {
+  from_date?: string;
+  to_date?: string;
+  tool?: string;
+  doctype?: string;
+  document?: string;
+  site?: string;
+  limit?: number;
+}
+
+// Idempotency Types
+export interface IdempotencyRecord {
+  site: string;
+  key: string;
+  doctype: string;
+  name: string;
+  created_at: string;
+}
+
+export interface IdempotentCreateResult {
+  doc: Record<string, any>;
+  replayed: boolean;
+}
+
 // Batch Journal Entry Types
 export interface BatchJournalEntryInput {
   entries: JournalEntry[];
   auto_submit?: boolean;
   stop_on_error?: boolean;
+  atomic?: boolean;
 }
 
 export interface BatchJournalEntryCreatedEntry {
@@ -115,6 +560,7 @@ export interface BatchJournalEntryCreatedEntry {
   total_debit: number;
   total_credit: number;
   submitted: boolean;
+  replayed?: boolean; // an earlier call with the same idempotency key already created it
 }
 
 export interface BatchJournalEntryError {
@@ -124,9 +570,126 @@ export interface BatchJournalEntryError {
   validation_result?: JournalEntryValidation;
 }
 
+export interface BatchRollbackAction {
+  index: number;
+  name: string;
+  action: 'deleted' | 'cancelled';
+  success: boolean;
+  error?: string;
+}
+
+export interface BatchRollbackReport {
+  reason: string;
+  failed_index: number;
+  complete: boolean; // false when some created entries could not be rolled back
+  actions: BatchRollbackAction[];
+}
+
 export interface BatchJournalEntryResult {
   success_count: number;
   error_count: number;
   created_entries: BatchJournalEntryCreatedEntry[];
   errors: BatchJournalEntryError[];
+  stopped_at?: number;
+  rollback?: BatchRollbackReport;
+}
+
+// DocType Metadata Types
+export interface DocTypeField {
+  fieldname: string;
+  label?: string;
+  fieldtype: string;
+  options?: string;
+  link_doctype?: string;
+  child_doctype?: string;
+  select_options?: string[];
+  reqd: boolean;
+  read_only: boolean;
+  hidden: boolean;
+  unique: boolean;
+  permlevel: number;
+  default?: string;
+  description?: string;
+  in_list_view: boolean;
 }
+
+export interface DocTypeMeta {
+  name: string;
+  module?: string;
+  is_submittable: boolean;
+  is_table: boolean;
+  is_single: boolean;
+  autoname?: string;
+  title_field?: string;
+  fields: DocTypeField[];
+  child_tables: Record<string, DocTypeMeta>;
+}
+
+// Dry Run Types
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface LinkCheck {
+  field: string;
+  doctype: string;
+  value: string;
+  exists: boolean;
+  table?: string;
+  row?: number;
+}
+
+export interface DryRunResult {
+  dry_run: true;
+  operation: 'create' | 'update';
+  doctype: string;
+  name?: string;
+  is_valid: boolean;
+  errors: string[];
+  warnings: string[];
+  link_checks: LinkCheck[];
+  changes?: FieldChange[];
+  request: {
+    method: 'POST' | 'PUT';
+    path: string;
+    body: any;
+  };
+}
+
+// List Query Types
+export interface ListPageOptions {
+  limit?: number; // page length, 0 returns every matching row
+  start?: number;
+  cursor?: string;
+  order_by?: string;
+  with_total?: boolean;
+}
+
+export interface PaginatedResult<T> {
+  data: T[];
+  start: number;
+  page_length: number;
+  has_more: boolean;
+  next_cursor?: string;
+  total?: number;
+}
+
+// Filter Types
+export type FilterOperator =
+  | '=' | '!=' | '>' | '<' | '>=' | '<='
+  | 'like' | 'not like'
+  | 'in' | 'not in'
+  | 'between'
+  | 'is'
+  | 'timespan'
+  | 'descendants of' | 'not descendants of'
+  | 'ancestors of' | 'not ancestors of';
+
+// [fieldname, operator, value] or, for child table fields, [child_doctype, fieldname, operator, value]
+export type FilterCondition =
+  | [string, FilterOperator, any]
+  | [string, string, FilterOperator, any];
+
+export type DocFilters = Record<string, any> | FilterCondition[];